@@ -1,13 +1,136 @@
-import { AptosClient, HexString, Types } from "aptos";
-import { DeleteResource, WriteResource } from "aptos/dist/api/data-contracts";
-import { AptosParserRepo, StructInfoType } from "./parserRepo";
-import { getTypeTagFullname, parseTypeTagOrThrow, StructTag, TypeTag } from "./typeTag";
+import { AptosClient, HexString, RequestError, Types } from "aptos";
+import { DeleteResource, DeleteTableItem, WriteResource, WriteTableItem } from "aptos/dist/api/data-contracts";
+import bigInt from "big-integer";
+import { bcsDeserializeMoveValue, bcsSerializeMoveValue } from "./bcs";
+import { AptosParserRepo, getStructInfoParamlessName, normalizeTableHandle, StructInfoType } from "./parserRepo";
+import { OptimisticUpdate } from "./txSender";
+import { getTypeTagFullname, normalizeAddressString, parseTypeTagOrThrow, StructTag, TypeTag } from "./typeTag";
+import { parseTypeTagPattern, typeTagMatches, TypeTagPattern } from "./typeTagPattern";
+import { deepEqual } from "./utils";
 
 
 export type UpdateType = 'update' | 'delete';
+export type Unsubscribe = () => void;
 export type ListenerType = {
   id: string; 
-  callback: (type: UpdateType, value: any) => void;
+  // ledgerVersion is the ledger version the new value was observed at, null if unknown. resourceKey is the updated
+  // resource, for listeners of several resources
+  callback: (type: UpdateType, value: any, ledgerVersion: null | bigInt.BigInteger, resourceKey: string) => void;
+}
+
+type PatternListener = {
+  pattern: TypeTagPattern;
+  // canonical owner address, null for resources of any owner
+  owner: null | string;
+  listener: ListenerType;
+}
+
+/*
+The value a resource is expected to have once a transaction commits. A null value predicts that it gets deleted
+*/
+export type ResourcePrediction = {
+  resourceKey: string;
+  value: any;
+}
+
+/*
+Predicted resource values that are shown while a transaction is in flight. Pass it as TxOptions.optimisticUpdate to
+a sender, or settle it by hand with confirm/rollback
+*/
+export class OptimisticResourceUpdate implements OptimisticUpdate {
+  private static nextId = 0;
+  public id: number;
+  constructor(
+    public cache: AptosResourceCache,
+    public predictions: ResourcePrediction[],
+  ) {
+    this.id = OptimisticResourceUpdate.nextId++;
+  }
+  apply() {
+    for(const prediction of this.predictions) {
+      this.cache.addPrediction(this.id, prediction);
+    }
+  }
+  confirm(txn: Types.UserTransaction) {
+    // the actual changes replace the predictions
+    this.cache.updateFromTransactionResult(txn);
+    this.cache.removePredictions(this.id);
+  }
+  rollback() {
+    this.cache.removePredictions(this.id);
+  }
+  outcomeUnknown() {
+    this.cache.settlePredictionsOnRefresh(this.id);
+  }
+}
+
+export type AutoRefreshOptions = {
+  // delay between the end of one refresh and the start of the next, defaults to 5 seconds
+  intervalMs?: number;
+  // after consecutive failures the delay doubles each time, up to this bound. Defaults to 1 minute
+  maxBackoffMs?: number;
+  // called with the error of each failed refresh
+  onError?: (e: any) => void;
+}
+
+export type AptosResourceCacheOptions = {
+  // maximum number of requests globalRefresh keeps in flight, defaults to 4
+  refreshConcurrency?: number;
+  // when globalRefresh needs at least this many resources of one address, it fetches them all with a single
+  // getAccountResources call instead. Defaults to 3
+  batchThreshold?: number;
+  // once more resources than this are cached, the least recently used ones without listeners are evicted.
+  // Resources of watched addresses are never evicted. Unbounded by default
+  maxResources?: number;
+}
+
+/*
+JSON-serializable content of an AptosResourceCache, see toSnapshot. Resource data is in the form returned by the REST
+API, type tags are full type names and structs are identified by their paramless names
+*/
+export type AptosResourceCacheSnapshot = {
+  resources: {
+    owner: string;
+    typeTag: string;
+    data: any;
+    ledgerVersion: null | string;
+  }[];
+  loadParams: {
+    owner: string;
+    struct: string;
+    typeParams: string[];
+  }[];
+  watchedAddresses: string[];
+}
+
+const DEFAULT_AUTO_REFRESH_INTERVAL_MS = 5000;
+const DEFAULT_AUTO_REFRESH_MAX_BACKOFF_MS = 60000;
+const DEFAULT_REFRESH_CONCURRENCY = 4;
+const DEFAULT_BATCH_THRESHOLD = 3;
+// table items share the cache with resources, under keys of the form "table:<handle>/<BCS-encoded key>"
+const TABLE_ITEM_KEY_PREFIX = 'table:';
+
+function isNotFound(e: any) {
+  return e instanceof RequestError && e.response?.status === 404;
+}
+
+/*
+Runs the tasks with at most limit of them in flight at a time
+*/
+async function runWithConcurrency(tasks: (() => Promise<void>)[], limit: number) {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next];
+      next += 1;
+      await task();
+    }
+  };
+  const workers = [];
+  for (let i = 0; i < Math.min(Math.max(limit, 1), tasks.length); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
 }
 
 
@@ -16,106 +139,628 @@ export class AptosResourceCache {
   public cachedResources: Record<string, any>;
   // record how various resources were loaded, so that we can replay these requests when refreshing
   public resourceKeyToLoadParams: Record<string, [StructInfoType, HexString, TypeTag[]]>;
+  // same for table items: handle, concrete table type and key
+  public tableItemKeyToLoadParams: Record<string, [string, StructTag, any]>;
+  // maps ResourceKey to the ledger version its cached value (or deletion) was observed at
+  public resourceVersions: Record<string, bigInt.BigInteger>;
   // maps ResourceKey to a list of listeners
   public updateListener: Record<string, ListenerType[]>;
-  // the set of addresses that are completely loaded
+  // maps ResourceKey to listener id to the number of times it was added, so that each unsubscribe only undoes its own
+  // registration
+  private listenerRegistrations: Record<string, Record<string, number>>;
+  // listeners of all resources whose type matches a pattern
+  private patternListeners: PatternListener[];
+  // for resources with unsettled predictions: the predictions in the order they were applied, and the confirmed
+  // value (null if deleted) that gets shown again once they are settled
+  private resourcePredictions: Record<string, [number, any][]>;
+  private confirmedValues: Record<string, any>;
+  // optimistic updates whose transaction has an unknown outcome, their predictions are dropped by the next value
+  // loaded for each resource
+  private updatesSettledByRefresh: Set<number>;
+  // the set of addresses that are completely loaded, at most one HexString per address
   public watchedAddresses: Set<HexString>;
+  // ResourceKeys from least to most recently used
+  private resourceUsage: Map<string, true>;
+  // auto refresh state. Each start/stop begins a new run, so that a refresh in flight cannot revive a stopped loop
+  private autoRefreshRun: number;
+  private autoRefreshTimer: null | ReturnType<typeof setTimeout>;
+  private autoRefreshOptions: AutoRefreshOptions;
+  public consecutiveRefreshFailures: number;
+  // requests in flight, so that identical loads share a single request. Keyed by ResourceKey and by address
+  private inFlightLoads: Record<string, Promise<any>>;
+  private inFlightAccountLoads: Record<string, Promise<Types.AccountResource[]>>;
+  private inFlightLedgerVersion: null | Promise<bigInt.BigInteger>;
   constructor(
     public client: AptosClient,
     public repo: AptosParserRepo,
+    public options: AptosResourceCacheOptions = {},
   ) {
     this.cachedResources = {};
+    this.resourceVersions = {};
+    this.resourcePredictions = {};
+    this.confirmedValues = {};
+    this.updatesSettledByRefresh = new Set();
     this.updateListener = {};
+    this.listenerRegistrations = {};
+    this.patternListeners = [];
     this.watchedAddresses = new Set();
+    this.resourceUsage = new Map();
     this.resourceKeyToLoadParams = {};
+    this.tableItemKeyToLoadParams = {};
+    this.autoRefreshRun = 0;
+    this.autoRefreshTimer = null;
+    this.autoRefreshOptions = {};
+    this.consecutiveRefreshFailures = 0;
+    this.inFlightLoads = {};
+    this.inFlightAccountLoads = {};
+    this.inFlightLedgerVersion = null;
   }
 
   /*
-  Load a specific resource
+  Load a specific resource. Loads of a resource that is already being loaded share the request in flight. The resource
+  is read at the latest ledger version, so that a transaction written to the cache meanwhile is not overwritten
   */
   async load<T extends StructInfoType>(struct: T, address: HexString, typeParams: TypeTag[], listener: ListenerType | null)  {
-    const loaded = await this.repo.loadResource(this.client, address, struct, typeParams);
+    const { resource } = await this.loadWithListener(struct, address, typeParams, listener);
+    return resource;
+  }
+
+  /*
+  Same as load, and also returns a function that removes the listener again
+  */
+  async subscribe<T extends StructInfoType>(struct: T, address: HexString, typeParams: TypeTag[], listener: ListenerType) {
+    return this.loadWithListener(struct, address, typeParams, listener);
+  }
+
+  private async loadWithListener(struct: StructInfoType, address: HexString, typeParams: TypeTag[], listener: ListenerType | null) {
     const typeTag = new StructTag(struct.moduleAddress, struct.moduleName, struct.structName, typeParams);
     const resourceKey = this.getResourceKey(address, typeTag);
-    if (resourceKey in this.cachedResources) {
-      this.updateResource(resourceKey, loaded);
-    }
-    else {
-      this.cachedResources[resourceKey] = loaded;
-    }
+    const ledgerVersion = await this.fetchLedgerVersion();
+    const resource = await this.fetchResource(resourceKey, struct, address, typeParams, ledgerVersion);
     this.resourceKeyToLoadParams[resourceKey] = [struct, address, typeParams];
-    if(listener) {
-      this.addListenerForResource(resourceKey, listener);
-    }
-    return loaded;
+    const unsubscribe = listener ? this.addListenerForResource(resourceKey, listener) : () => {};
+    this.evictIfNeeded();
+    return { resource, unsubscribe };
+  }
+
+  /*
+  Load all resources owned by an account, and keep the account watched (refreshed as a whole) until unwatchAddress.
+  Returns the keys of the loaded resources. With a pattern (see typeTagPattern), only the keys of resources whose type
+  matches it are returned and listened to, although all of them are cached
+  */
+  async loadAccount(address: HexString, listener: ListenerType | null, pattern: null | string | TypeTagPattern = null) {
+    const { resourceKeys } = await this.loadAccountWithListener(address, listener, pattern);
+    return resourceKeys;
+  }
+
+  /*
+  Same as loadAccount, and also returns a function that removes the listener from all returned resources again
+  */
+  async subscribeAccount(address: HexString, listener: ListenerType, pattern: null | string | TypeTagPattern = null) {
+    return this.loadAccountWithListener(address, listener, pattern);
+  }
+
+  private async loadAccountWithListener(address: HexString, listener: ListenerType | null, pattern: null | string | TypeTagPattern) {
+    const parsedPattern = typeof pattern === 'string' ? parseTypeTagPattern(pattern) : pattern;
+    const loadedResourceKeys = await this.loadAccountAtVersion(address, await this.fetchLedgerVersion());
+    const resourceKeys = parsedPattern === null ? loadedResourceKeys : loadedResourceKeys.filter(resourceKey => this.resourceMatches(resourceKey, parsedPattern));
+    this.watchAddress(address);
+    const unsubscribes = listener ? resourceKeys.map(resourceKey => this.addListenerForResource(resourceKey, listener)) : [];
+    const unsubscribe = () => unsubscribes.forEach(u => u());
+    this.evictIfNeeded();
+    return { resourceKeys, unsubscribe };
+  }
+
+  /*
+  Load one item of a table (see getTableHandle and getTableFieldTypeTag). The item is cached like a resource under
+  getTableItemKey, refreshed by globalRefresh and updated by write_table_item changes
+  */
+  async loadTableItem(handle: string, tableTypeTag: StructTag, key: any, listener: ListenerType | null) {
+    const { item } = await this.loadTableItemWithListener(handle, tableTypeTag, key, listener);
+    return item;
+  }
+
+  /*
+  Same as loadTableItem, and also returns a function that removes the listener again
+  */
+  async subscribeTableItem(handle: string, tableTypeTag: StructTag, key: any, listener: ListenerType) {
+    return this.loadTableItemWithListener(handle, tableTypeTag, key, listener);
+  }
+
+  private async loadTableItemWithListener(handle: string, tableTypeTag: StructTag, key: any, listener: ListenerType | null) {
+    const resourceKey = this.getTableItemKey(handle, tableTypeTag, key);
+    const item = await this.fetchTableItem(resourceKey, handle, tableTypeTag, key, await this.fetchLedgerVersion());
+    this.tableItemKeyToLoadParams[resourceKey] = [handle, tableTypeTag, key];
+    const unsubscribe = listener ? this.addListenerForResource(resourceKey, listener) : () => {};
+    this.evictIfNeeded();
+    return { item, unsubscribe };
   }
 
   /*
-  Load all resources owned by an account
+  Stores all resources of an account at ledgerVersion, and deletes its cached resources that are gone at that version.
+  Returns the keys of the stored resources
   */
-  async loadAccount(address: HexString, listener: ListenerType | null) {
-    const resources = await this.client.getAccountResources(address);
+  private async loadAccountAtVersion(address: HexString, ledgerVersion: bigInt.BigInteger) {
+    const resources = await this.fetchAccountResources(address, ledgerVersion);
     const loadedResourceKeys = [];
+    const existingResourceKeys = new Set<string>();
     for(const resource of resources) {
       const typeTag = parseTypeTagOrThrow(resource.type);
+      const resourceKey = this.getResourceKey(address, typeTag);
+      existingResourceKeys.add(resourceKey);
       try{
         const value = this.repo.parse(resource.data, typeTag);
-        const resourceKey = this.getResourceKey(address, typeTag);
-        if (resourceKey in this.cachedResources) {
-          this.updateResource(resourceKey, value);
-        }
-        else {
-          this.cachedResources[resourceKey] = value;
-        }
+        this.storeResource(resourceKey, value, ledgerVersion);
         loadedResourceKeys.push(resourceKey);
-        if (listener) {
-          this.addListenerForResource(resourceKey, listener);
-        }
       }
       catch(e) {
         console.log(`Failed to parse resource of type: ${resource.type}`);
       }
     }
-    this.watchedAddresses.add(address);
+    const addressKey = normalizeAddressString(address);
+    for(const resourceKey of Object.keys(this.cachedResources)) {
+      if (this.getResourceOwner(resourceKey) === addressKey && !existingResourceKeys.has(resourceKey)) {
+        this.removeDeletedResource(resourceKey, ledgerVersion);
+      }
+    }
     return loadedResourceKeys;
   }
 
   /*
-  Reload all resources that have been previously loaded
+  Stop refreshing an account as a whole. Its resources that were not loaded individually are evicted, since they
+  could not be refreshed anymore
+  */
+  unwatchAddress(address: HexString) {
+    const watched = this.findWatchedAddress(address);
+    if (watched === null) {
+      return;
+    }
+    const addressKey = normalizeAddressString(address);
+    this.watchedAddresses.delete(watched);
+    for(const resourceKey of Object.keys(this.cachedResources)) {
+      if (this.getResourceOwner(resourceKey) === addressKey && !(resourceKey in this.resourceKeyToLoadParams)) {
+        this.evictResource(resourceKey);
+      }
+    }
+  }
+
+  isWatched(address: HexString) {
+    return this.findWatchedAddress(address) !== null;
+  }
+
+  /*
+  Addresses are watched by value: the HexString in watchedAddresses for address, null if it is not watched
+  */
+  private findWatchedAddress(address: HexString): null | HexString {
+    const addressKey = normalizeAddressString(address);
+    for(const watched of this.watchedAddresses) {
+      if (normalizeAddressString(watched) === addressKey) {
+        return watched;
+      }
+    }
+    return null;
+  }
+
+  private watchAddress(address: HexString) {
+    if (!this.isWatched(address)) {
+      this.watchedAddresses.add(address);
+    }
+  }
+
+  /*
+  Reload all resources that have been previously loaded. Everything is read at the same ledger version, fetched once
+  per refresh. Resources that are gone on chain are deleted (listeners get a 'delete') and no longer refreshed
   */
   async globalRefresh() {
     /*
     1. refresh addresses
-    2. refresh the rest one-by-one
+    2. refresh the rest, batched per address where enough of them belong to the same address
     */
+    const ledgerVersion = await this.fetchLedgerVersion();
+    const concurrency = this.options.refreshConcurrency ?? DEFAULT_REFRESH_CONCURRENCY;
+    const batchThreshold = this.options.batchThreshold ?? DEFAULT_BATCH_THRESHOLD;
     const loaded = new Set<string>();
-    for(const address of this.watchedAddresses) {
-      for(const resourceKey of await this.loadAccount(address, null)) {
+    await runWithConcurrency(Array.from(this.watchedAddresses).map(address => async () => {
+      for(const resourceKey of await this.loadAccountAtVersion(address, ledgerVersion)) {
         loaded.add(resourceKey);
       }
-    }
+    }), concurrency);
+    // group the remaining resources by owner
+    const addressToResourceKeys: Record<string, [HexString, string[]]> = {};
     for(const resourceKey in this.cachedResources) {
-      if(!loaded.has(resourceKey)) {
+      if(!loaded.has(resourceKey) && resourceKey in this.resourceKeyToLoadParams) {
+        const [, address] = this.resourceKeyToLoadParams[resourceKey];
+        const addressKey = normalizeAddressString(address);
+        if (!(addressKey in addressToResourceKeys)) {
+          addressToResourceKeys[addressKey] = [address, []];
+        }
+        addressToResourceKeys[addressKey][1].push(resourceKey);
+      }
+    }
+    const tasks: (() => Promise<void>)[] = [];
+    for(const resourceKey of Object.keys(this.tableItemKeyToLoadParams)) {
+      tasks.push(async () => {
+        await this.reload(resourceKey, ledgerVersion);
+      });
+    }
+    for(const [address, resourceKeys] of Object.values(addressToResourceKeys)) {
+      if (resourceKeys.length >= batchThreshold) {
+        tasks.push(() => this.refreshAccountResources(address, resourceKeys, ledgerVersion));
+      }
+      else {
+        for(const resourceKey of resourceKeys) {
+          tasks.push(async () => {
+            await this.reload(resourceKey, ledgerVersion);
+          });
+        }
+      }
+    }
+    await runWithConcurrency(tasks, concurrency);
+  }
+
+  /*
+  Reload a previously loaded resource, at the given ledger version or the latest one. Returns null if it no longer
+  exists on chain, in which case it is deleted from the cache (see removeDeletedResource)
+  */
+  async reload(resourceKey: string, ledgerVersion: null | bigInt.BigInteger = null) {
+    const version = ledgerVersion ?? await this.fetchLedgerVersion();
+    let value: any;
+    try {
+      if (resourceKey in this.tableItemKeyToLoadParams) {
+        const [handle, tableTypeTag, key] = this.tableItemKeyToLoadParams[resourceKey];
+        value = await this.fetchTableItem(resourceKey, handle, tableTypeTag, key, version);
+      }
+      else {
         const [struct, address, typeParams] = this.resourceKeyToLoadParams[resourceKey];
-        await this.load(struct, address, typeParams, null);
-        loaded.add(resourceKey);
+        value = await this.fetchResource(resourceKey, struct, address, typeParams, version);
+      }
+    }
+    catch(e) {
+      if (!isNotFound(e)) {
+        throw e;
       }
+      this.removeDeletedResource(resourceKey, version);
+      value = null;
+    }
+    this.evictIfNeeded();
+    return value;
+  }
+
+  /*
+  Handles a previously loaded resource or table item that is gone on chain: it is deleted and listeners are notified,
+  and it is not refreshed anymore. Kept if the cache holds a newer value than the deletion
+  */
+  private removeDeletedResource(resourceKey: string, ledgerVersion: bigInt.BigInteger) {
+    if (this.isOutdated(resourceKey, ledgerVersion)) {
+      return;
+    }
+    this.deleteResource(resourceKey, ledgerVersion);
+    delete this.resourceKeyToLoadParams[resourceKey];
+    delete this.tableItemKeyToLoadParams[resourceKey];
+  }
+
+  /*
+  Reload several previously loaded resources owned by address, with a single getAccountResources call, at the given
+  ledger version or the latest one
+  */
+  async refreshAccountResources(address: HexString, resourceKeys: string[], ledgerVersion: null | bigInt.BigInteger = null) {
+    const version = ledgerVersion ?? await this.fetchLedgerVersion();
+    const resources = await this.fetchAccountResources(address, version);
+    const wanted = new Set(resourceKeys);
+    const found = new Set<string>();
+    for(const resource of resources) {
+      const typeTag = parseTypeTagOrThrow(resource.type);
+      const resourceKey = this.getResourceKey(address, typeTag);
+      if (wanted.has(resourceKey)) {
+        this.storeResource(resourceKey, this.repo.parse(resource.data, typeTag), version);
+        found.add(resourceKey);
+      }
+    }
+    // resources that are gone from the account were deleted
+    for(const resourceKey of resourceKeys) {
+      if (!found.has(resourceKey)) {
+        this.removeDeletedResource(resourceKey, version);
+      }
+    }
+  }
+
+  /*
+  Table items cannot be read at a ledger version: they are read at the latest one, and stored with ledgerVersion, a
+  ledger version fetched before the read. Shared with any load of the same item already in flight
+  */
+  private fetchTableItem(resourceKey: string, handle: string, tableTypeTag: StructTag, key: any, ledgerVersion: bigInt.BigInteger): Promise<any> {
+    let pending = this.inFlightLoads[resourceKey];
+    if (!pending) {
+      pending = (async () => {
+        const loaded = await this.repo.loadTableItem(this.client, handle, tableTypeTag, key);
+        this.storeResource(resourceKey, loaded, ledgerVersion);
+        return resourceKey in this.cachedResources ? this.cachedResources[resourceKey] : loaded;
+      })().finally(() => {
+        delete this.inFlightLoads[resourceKey];
+      });
+      this.inFlightLoads[resourceKey] = pending;
+    }
+    return pending;
+  }
+
+  /*
+  Loads a resource at the given ledger version, and stores it unless the cache already holds a newer value. Returns
+  the cached value. Shared with any load of the same resource already in flight
+  */
+  private fetchResource(
+    resourceKey: string,
+    struct: StructInfoType,
+    address: HexString,
+    typeParams: TypeTag[],
+    ledgerVersion: bigInt.BigInteger,
+  ): Promise<any> {
+    let pending = this.inFlightLoads[resourceKey];
+    if (!pending) {
+      pending = (async () => {
+        const loaded = await this.repo.loadResource(this.client, address, struct, typeParams, { version: ledgerVersion.toString() });
+        this.storeResource(resourceKey, loaded, ledgerVersion);
+        return resourceKey in this.cachedResources ? this.cachedResources[resourceKey] : loaded;
+      })().finally(() => {
+        delete this.inFlightLoads[resourceKey];
+      });
+      this.inFlightLoads[resourceKey] = pending;
+    }
+    return pending;
+  }
+
+  /*
+  getAccountResources at the given ledger version, shared with any identical request already in flight
+  */
+  private fetchAccountResources(address: HexString, ledgerVersion: bigInt.BigInteger) {
+    const addressKey = `${normalizeAddressString(address)}@${ledgerVersion.toString()}`;
+    let pending = this.inFlightAccountLoads[addressKey];
+    if (!pending) {
+      pending = this.client.getAccountResources(address, { version: ledgerVersion.toString() }).finally(() => {
+        delete this.inFlightAccountLoads[addressKey];
+      });
+      this.inFlightAccountLoads[addressKey] = pending;
+    }
+    return pending;
+  }
+
+  /*
+  The latest ledger version, shared with any identical request already in flight. Asked for before every read, so that
+  the value read is stored with its version, or for table items with a lower bound of it. globalRefresh asks once per
+  refresh
+  */
+  private fetchLedgerVersion() {
+    if (!this.inFlightLedgerVersion) {
+      this.inFlightLedgerVersion = this.client.getLedgerInfo()
+        .then(info => bigInt(info.ledger_version))
+        .finally(() => {
+          this.inFlightLedgerVersion = null;
+        });
     }
+    return this.inFlightLedgerVersion;
+  }
+
+  /*
+  Call globalRefresh periodically until stopAutoRefresh is called. Listeners are only notified of resources that
+  actually changed
+  */
+  startAutoRefresh(options: AutoRefreshOptions = {}) {
+    this.stopAutoRefresh();
+    this.autoRefreshOptions = options;
+    this.scheduleAutoRefresh(this.autoRefreshRun, 0);
+  }
+
+  stopAutoRefresh() {
+    this.autoRefreshRun += 1;
+    if (this.autoRefreshTimer !== null) {
+      clearTimeout(this.autoRefreshTimer);
+      this.autoRefreshTimer = null;
+    }
+    this.consecutiveRefreshFailures = 0;
+  }
+
+  isAutoRefreshing() {
+    return this.autoRefreshTimer !== null;
+  }
+
+  /*
+  Delay before the next auto refresh: the interval, doubled for each consecutive failure
+  */
+  getAutoRefreshDelay() {
+    const intervalMs = this.autoRefreshOptions.intervalMs ?? DEFAULT_AUTO_REFRESH_INTERVAL_MS;
+    const maxBackoffMs = this.autoRefreshOptions.maxBackoffMs ?? DEFAULT_AUTO_REFRESH_MAX_BACKOFF_MS;
+    if (this.consecutiveRefreshFailures === 0) {
+      return intervalMs;
+    }
+    return Math.min(intervalMs * Math.pow(2, this.consecutiveRefreshFailures), Math.max(intervalMs, maxBackoffMs));
+  }
+
+  private scheduleAutoRefresh(run: number, delayMs: number) {
+    this.autoRefreshTimer = setTimeout(async () => {
+      try {
+        await this.globalRefresh();
+        if (run === this.autoRefreshRun) {
+          this.consecutiveRefreshFailures = 0;
+        }
+      }
+      catch(e) {
+        if (run === this.autoRefreshRun) {
+          this.consecutiveRefreshFailures += 1;
+          if (this.autoRefreshOptions.onError) {
+            this.autoRefreshOptions.onError(e);
+          }
+        }
+      }
+      if (run === this.autoRefreshRun) {
+        this.scheduleAutoRefresh(run, this.getAutoRefreshDelay());
+      }
+    }, delayMs);
   }
 
   /*
-  Add listener for a particular ResourceKey
+  Add listener for a particular ResourceKey. Listeners are identified by id: adding one again only counts another
+  registration. Returns a function that undoes this registration, the listener is removed once all of its
+  registrations are undone
   */
-  addListenerForResource(resourceKey: string, listener: ListenerType) {
+  addListenerForResource(resourceKey: string, listener: ListenerType): Unsubscribe {
     if(!(resourceKey in this.updateListener)) {
       this.updateListener[resourceKey] = [];
     }
-    for(const registeredListener of this.updateListener[resourceKey]) {
-      if(registeredListener.id === listener.id) {
-        return;
+    if(!(resourceKey in this.listenerRegistrations)) {
+      this.listenerRegistrations[resourceKey] = {};
+    }
+    const registrations = this.listenerRegistrations[resourceKey];
+    if(!this.updateListener[resourceKey].some(registeredListener => registeredListener.id === listener.id)) {
+      this.updateListener[resourceKey].push(listener);
+      registrations[listener.id] = 0;
+    }
+    registrations[listener.id] = (registrations[listener.id] ?? 0) + 1;
+    let registered = true;
+    return () => {
+      if (registered) {
+        registered = false;
+        this.releaseListener(resourceKey, listener.id);
+      }
+    };
+  }
+
+  private releaseListener(resourceKey: string, listenerId: string) {
+    const registrations = this.listenerRegistrations[resourceKey];
+    if (!registrations || !(listenerId in registrations)) {
+      return;
+    }
+    registrations[listenerId] -= 1;
+    if (registrations[listenerId] <= 0) {
+      this.removeListenerForResource(resourceKey, listenerId);
+    }
+  }
+
+  /*
+  Add listener for every resource whose type matches pattern, optionally only those owned by owner. This includes
+  resources that are first cached after it was added, e.g. a new CoinStore showing up when a watched account is
+  refreshed. It does not keep resources from being evicted. Returns a function that removes it
+  */
+  addListenerForPattern(pattern: string | TypeTagPattern, listener: ListenerType, owner: null | HexString = null): Unsubscribe {
+    const parsedPattern = typeof pattern === 'string' ? parseTypeTagPattern(pattern) : pattern;
+    const patternListener = { pattern: parsedPattern, owner: owner === null ? null : normalizeAddressString(owner), listener };
+    this.patternListeners.push(patternListener);
+    // only removes this registration, the same listener may be registered for other patterns
+    return () => {
+      this.patternListeners = this.patternListeners.filter(p => p !== patternListener);
+    };
+  }
+
+  removeListenerForPattern(listenerId: string) {
+    this.patternListeners = this.patternListeners.filter(p => p.listener.id !== listenerId);
+  }
+
+  /*
+  Keys of the cached resources whose type matches pattern, optionally only those owned by owner. Table items are
+  never included
+  */
+  getResourceKeys(pattern: string | TypeTagPattern, owner: null | HexString = null): string[] {
+    const parsedPattern = typeof pattern === 'string' ? parseTypeTagPattern(pattern) : pattern;
+    const ownerKey = owner === null ? null : normalizeAddressString(owner);
+    return Object.keys(this.cachedResources).filter(resourceKey =>
+      (ownerKey === null || this.getResourceOwner(resourceKey) === ownerKey) && this.resourceMatches(resourceKey, parsedPattern)
+    );
+  }
+
+  private resourceMatches(resourceKey: string, pattern: TypeTagPattern) {
+    if (resourceKey.startsWith(TABLE_ITEM_KEY_PREFIX)) {
+      return false;
+    }
+    return typeTagMatches(pattern, parseTypeTagOrThrow(this.splitResourceKey(resourceKey)[1]));
+  }
+
+  /*
+  Removes the listener with listenerId from a ResourceKey, however many times it was added
+  */
+  removeListenerForResource(resourceKey: string, listenerId: string) {
+    const registrations = this.listenerRegistrations[resourceKey];
+    if (registrations) {
+      delete registrations[listenerId];
+      if (Object.keys(registrations).length === 0) {
+        delete this.listenerRegistrations[resourceKey];
+      }
+    }
+    const listeners = this.updateListener[resourceKey];
+    if (!listeners) {
+      return;
+    }
+    const remaining = listeners.filter(l => l.id !== listenerId);
+    if (remaining.length > 0) {
+      this.updateListener[resourceKey] = remaining;
+    }
+    else {
+      delete this.updateListener[resourceKey];
+      // the resource may be evictable now
+      this.evictIfNeeded();
+    }
+  }
+
+  /*
+  Returns the cached value of a resource (undefined if it is not cached), and marks it as recently used
+  */
+  getResource(resourceKey: string): any {
+    if (resourceKey in this.cachedResources) {
+      this.touchResource(resourceKey);
+    }
+    return this.cachedResources[resourceKey];
+  }
+
+  /*
+  Removes a resource and everything recorded about it from the cache, without notifying listeners
+  */
+  evictResource(resourceKey: string) {
+    delete this.cachedResources[resourceKey];
+    delete this.resourceKeyToLoadParams[resourceKey];
+    delete this.tableItemKeyToLoadParams[resourceKey];
+    delete this.resourceVersions[resourceKey];
+    this.resourceUsage.delete(resourceKey);
+  }
+
+  /*
+  Evicts least recently used resources until at most options.maxResources are cached. Resources with listeners or
+  pending predictions, and resources of watched addresses, are kept
+  */
+  evictIfNeeded() {
+    const maxResources = this.options.maxResources;
+    if (maxResources === undefined) {
+      return;
+    }
+    let excess = Object.keys(this.cachedResources).length - maxResources;
+    for(const resourceKey of Array.from(this.resourceUsage.keys())) {
+      if (excess <= 0) {
+        break;
+      }
+      const pinned = resourceKey in this.updateListener ||
+        resourceKey in this.resourcePredictions ||
+        this.isOwnedByWatchedAddress(resourceKey);
+      if (!pinned && resourceKey in this.cachedResources) {
+        this.evictResource(resourceKey);
+        excess -= 1;
       }
     }
-    this.updateListener[resourceKey].push(listener);
+  }
+
+  private touchResource(resourceKey: string) {
+    this.resourceUsage.delete(resourceKey);
+    this.resourceUsage.set(resourceKey, true);
+  }
+
+  /*
+  Canonical owner address in a ResourceKey, null for table items
+  */
+  private getResourceOwner(resourceKey: string) {
+    if (resourceKey.startsWith(TABLE_ITEM_KEY_PREFIX)) {
+      return null;
+    }
+    return this.splitResourceKey(resourceKey)[0];
+  }
+
+  private isOwnedByWatchedAddress(resourceKey: string) {
+    const owner = this.getResourceOwner(resourceKey);
+    return owner !== null && this.isWatched(new HexString(owner));
   }
 
   /*
@@ -127,14 +772,15 @@ export class AptosResourceCache {
   */
   updateFromTransactionResult(txn: Types.UserTransaction) {
     if (txn.success && txn.hash !== '0x0') {
+      const ledgerVersion = bigInt(txn.version);
       for(const change of txn.changes) {
         if(change.type === 'write_resource' ) {
           const write = change as WriteResource;
           const typeTag = parseTypeTagOrThrow(write.data.type);
           const resourceKey = this.getResourceKey(new HexString(write.address), typeTag);
-          if (resourceKey in this.cachedResources) {
+          if (this.isCached(resourceKey)) {
             const newValue = this.repo.parse(write.data.data, typeTag);
-            this.updateResource(resourceKey, newValue);
+            this.updateResource(resourceKey, newValue, ledgerVersion);
           }
 
         }
@@ -142,8 +788,26 @@ export class AptosResourceCache {
           const del = change as DeleteResource;
           const typeTag = parseTypeTagOrThrow(del.resource);
           const resourceKey = this.getResourceKey(new HexString(del.address), typeTag);
-          if (resourceKey in this.cachedResources) {
-            this.deleteResource(resourceKey);
+          if (this.isCached(resourceKey)) {
+            this.deleteResource(resourceKey, ledgerVersion);
+          }
+        }
+        else if (change.type === 'write_table_item') {
+          // only items loaded with loadTableItem are cached, their load params tell how to decode the value
+          const write = change as WriteTableItem;
+          const resourceKey = this.getTableItemKeyFromBytes(write.handle, write.key);
+          if (resourceKey in this.tableItemKeyToLoadParams && this.isCached(resourceKey)) {
+            const [, tableTypeTag] = this.tableItemKeyToLoadParams[resourceKey];
+            const valueType = tableTypeTag.typeParams[1];
+            const data = bcsDeserializeMoveValue(new HexString(write.value).toUint8Array(), valueType, this.repo);
+            this.updateResource(resourceKey, this.repo.parse(data, valueType), ledgerVersion);
+          }
+        }
+        else if (change.type === 'delete_table_item') {
+          const del = change as DeleteTableItem;
+          const resourceKey = this.getTableItemKeyFromBytes(del.data.handle, del.data.key);
+          if (this.isCached(resourceKey)) {
+            this.deleteResource(resourceKey, ledgerVersion);
           }
         }
       }
@@ -151,35 +815,277 @@ export class AptosResourceCache {
   }
 
   /*
-  Updates the resource cache and notifies listeners (if any)
+  Stores a freshly loaded value, notifying listeners if the resource was already cached. Pattern listeners are
+  notified of new resources too
+  */
+  storeResource(resourceKey: string, value: any, ledgerVersion: null | bigInt.BigInteger = null) {
+    this.touchResource(resourceKey);
+    if (this.isCached(resourceKey)) {
+      this.updateResource(resourceKey, value, ledgerVersion);
+    }
+    else if (!this.isOutdated(resourceKey, ledgerVersion)) {
+      this.cachedResources[resourceKey] = value;
+      this.setResourceVersion(resourceKey, ledgerVersion);
+      this.notifyPatternListeners(resourceKey, 'update', value, ledgerVersion);
+    }
+  }
+
+  /*
+  Updates the resource cache and notifies listeners (if any). Updates older than the cached value are ignored, and
+  listeners are not notified if the new value is equal to the cached one
+  */
+  updateResource(resourceKey: string, value: any, ledgerVersion: null | bigInt.BigInteger = null) {
+    if (this.isOutdated(resourceKey, ledgerVersion)) {
+      return;
+    }
+    this.setResourceVersion(resourceKey, ledgerVersion);
+    if (resourceKey in this.resourcePredictions) {
+      // keep showing the prediction until it is settled
+      this.confirmedValues[resourceKey] = value;
+      this.removeResourcePredictions(resourceKey, updateId => this.updatesSettledByRefresh.has(updateId));
+      return;
+    }
+    this.showValue(resourceKey, value, ledgerVersion);
+  }
+
+  /*
+  Delete the resource and notifies listeners (if any), unless the cached value is newer than the deletion
+  */
+  deleteResource(resourceKey: string, ledgerVersion: null | bigInt.BigInteger = null) {
+    if (this.isOutdated(resourceKey, ledgerVersion)) {
+      return;
+    }
+    // the version is kept, so that older loads cannot bring the resource back
+    this.setResourceVersion(resourceKey, ledgerVersion);
+    if (resourceKey in this.resourcePredictions) {
+      this.confirmedValues[resourceKey] = null;
+      this.removeResourcePredictions(resourceKey, updateId => this.updatesSettledByRefresh.has(updateId));
+      return;
+    }
+    this.showValue(resourceKey, null, ledgerVersion);
+  }
+
+  /*
+  Predictions for the effect of a transaction, to be applied with apply() (or by passing it to a sender as
+  TxOptions.optimisticUpdate)
+  */
+  optimisticUpdate(predictions: ResourcePrediction[]) {
+    return new OptimisticResourceUpdate(this, predictions);
+  }
+
+  /*
+  Shows a predicted value and notifies listeners. Updates that arrive before the prediction is settled are held back
+  */
+  addPrediction(updateId: number, prediction: ResourcePrediction) {
+    const { resourceKey, value } = prediction;
+    if (!(resourceKey in this.resourcePredictions)) {
+      this.resourcePredictions[resourceKey] = [];
+      this.confirmedValues[resourceKey] = resourceKey in this.cachedResources ? this.cachedResources[resourceKey] : null;
+    }
+    this.resourcePredictions[resourceKey].push([updateId, value]);
+    this.showValue(resourceKey, value, null);
+  }
+
+  /*
+  Settles the predictions of an optimistic update. Resources go back to the latest remaining prediction, or to their
+  confirmed value
+  */
+  removePredictions(updateId: number) {
+    for(const resourceKey of Object.keys(this.resourcePredictions)) {
+      this.removeResourcePredictions(resourceKey, id => id === updateId);
+    }
+    this.updatesSettledByRefresh.delete(updateId);
+  }
+
+  /*
+  Keeps showing the predictions of an optimistic update whose transaction may still be committed (e.g. waiting for it
+  timed out), until a fresh value of each predicted resource is loaded
   */
-  updateResource(resourceKey: string, value: any) {
-    this.cachedResources[resourceKey] = value;
+  settlePredictionsOnRefresh(updateId: number) {
+    this.updatesSettledByRefresh.add(updateId);
+  }
+
+  private removeResourcePredictions(resourceKey: string, isRemoved: (updateId: number) => boolean) {
+    const remaining = this.resourcePredictions[resourceKey].filter(([id]) => !isRemoved(id));
+    if (remaining.length === this.resourcePredictions[resourceKey].length) {
+      return;
+    }
+    if (remaining.length > 0) {
+      this.resourcePredictions[resourceKey] = remaining;
+      this.showValue(resourceKey, remaining[remaining.length - 1][1], null);
+    }
+    else {
+      const confirmed = this.confirmedValues[resourceKey];
+      delete this.resourcePredictions[resourceKey];
+      delete this.confirmedValues[resourceKey];
+      this.showValue(resourceKey, confirmed, this.getResourceVersion(resourceKey));
+    }
+    // forget the updates that have no predictions left
+    const predictions = Object.values(this.resourcePredictions);
+    this.updatesSettledByRefresh.forEach(updateId => {
+      if (!predictions.some(resourcePredictions => resourcePredictions.some(([id]) => id === updateId))) {
+        this.updatesSettledByRefresh.delete(updateId);
+      }
+    });
+  }
+
+  /*
+  Whether the resource is cached, or would be if not for a predicted deletion
+  */
+  isCached(resourceKey: string) {
+    return resourceKey in this.cachedResources || resourceKey in this.resourcePredictions;
+  }
+
+  /*
+  Sets the value seen by users of the cache (null for deleted), and notifies listeners if it changed
+  */
+  private showValue(resourceKey: string, value: any, ledgerVersion: null | bigInt.BigInteger) {
+    const exists = resourceKey in this.cachedResources;
+    if (value === null) {
+      if (!exists) {
+        return;
+      }
+      delete this.cachedResources[resourceKey];
+    }
+    else {
+      const unchanged = exists && deepEqual(this.cachedResources[resourceKey], value);
+      this.cachedResources[resourceKey] = value;
+      if (unchanged) {
+        return;
+      }
+    }
+    const updateType = value === null ? 'delete' : 'update';
     const listeners = this.updateListener[resourceKey];
     if (listeners) {
       for(const listener of listeners) {
-        listener.callback('update', value);
+        listener.callback(updateType, value, ledgerVersion, resourceKey);
+      }
+    }
+    this.notifyPatternListeners(resourceKey, updateType, value, ledgerVersion);
+  }
+
+  private notifyPatternListeners(resourceKey: string, updateType: UpdateType, value: any, ledgerVersion: null | bigInt.BigInteger) {
+    for(const { pattern, owner, listener } of this.patternListeners) {
+      if ((owner === null || this.getResourceOwner(resourceKey) === owner) && this.resourceMatches(resourceKey, pattern)) {
+        listener.callback(updateType, value, ledgerVersion, resourceKey);
       }
     }
   }
 
   /*
-  Delete the resource and notifies listeners (if any)
+  Ledger version the cached value of a resource was observed at, null if unknown
   */
-  deleteResource(resourceKey: string) {
-    delete this.cachedResources[resourceKey];
-    const listeners = this.updateListener[resourceKey];
-    if (listeners) {
-      for(const listener of listeners) {
-        listener.callback('delete', null);
+  getResourceVersion(resourceKey: string): null | bigInt.BigInteger {
+    return this.resourceVersions[resourceKey] ?? null;
+  }
+
+  /*
+  Whether an update observed at ledgerVersion is older than what the cache holds. Updates of unknown version are
+  outdated once the cache holds a value of known version, so they can never replace it or clear its version
+  */
+  isOutdated(resourceKey: string, ledgerVersion: null | bigInt.BigInteger) {
+    const cachedVersion = this.getResourceVersion(resourceKey);
+    if (cachedVersion === null) {
+      return false;
+    }
+    return ledgerVersion === null || ledgerVersion.lesser(cachedVersion);
+  }
+
+  private setResourceVersion(resourceKey: string, ledgerVersion: null | bigInt.BigInteger) {
+    if (ledgerVersion === null) {
+      delete this.resourceVersions[resourceKey];
+    }
+    else {
+      this.resourceVersions[resourceKey] = ledgerVersion;
+    }
+  }
+
+  /*
+  Captures cached resources, how they were loaded, and the watched addresses. Values shown by unsettled predictions
+  are left out in favor of their confirmed values. Listeners and table items are not part of the snapshot
+  */
+  toSnapshot(): AptosResourceCacheSnapshot {
+    const resources: AptosResourceCacheSnapshot['resources'] = [];
+    const resourceKeys = new Set([...Object.keys(this.cachedResources), ...Object.keys(this.confirmedValues)]);
+    for(const resourceKey of resourceKeys) {
+      const value = resourceKey in this.confirmedValues ? this.confirmedValues[resourceKey] : this.cachedResources[resourceKey];
+      if (value === null || resourceKey.startsWith(TABLE_ITEM_KEY_PREFIX)) {
+        continue;
+      }
+      const [owner, typeName] = this.splitResourceKey(resourceKey);
+      const ledgerVersion = this.getResourceVersion(resourceKey);
+      resources.push({
+        owner,
+        typeTag: typeName,
+        data: this.repo.serialize(value, parseTypeTagOrThrow(typeName)),
+        ledgerVersion: ledgerVersion === null ? null : ledgerVersion.toString(),
+      });
+    }
+    const loadParams = Object.values(this.resourceKeyToLoadParams).map(([struct, address, typeParams]) => ({
+      owner: address.hex(),
+      struct: getStructInfoParamlessName(struct),
+      typeParams: typeParams.map(getTypeTagFullname),
+    }));
+    return {
+      resources,
+      loadParams,
+      watchedAddresses: Array.from(this.watchedAddresses).map(address => address.hex()),
+    };
+  }
+
+  /*
+  Adds the content of a snapshot to this cache, parsing resources with the repo. Structs of the load params need to
+  be registered in the repo (loadParsers of generated modules does that). Values older than the cached ones are
+  ignored, and listeners of changed resources are notified as usual
+  */
+  restoreSnapshot(snapshot: AptosResourceCacheSnapshot) {
+    const loadParams = snapshot.loadParams.map(params => {
+      const struct = this.repo.getStructInfo(params.struct);
+      if (!struct) {
+        throw new Error(`No struct registered for type: ${params.struct}`);
       }
+      return [struct, new HexString(params.owner), params.typeParams.map(parseTypeTagOrThrow)] as [StructInfoType, HexString, TypeTag[]];
+    });
+    for(const resource of snapshot.resources) {
+      const typeTag = parseTypeTagOrThrow(resource.typeTag);
+      const value = this.repo.parse(resource.data, typeTag);
+      const ledgerVersion = resource.ledgerVersion === null ? null : bigInt(resource.ledgerVersion);
+      this.storeResource(this.getResourceKey(new HexString(resource.owner), typeTag), value, ledgerVersion);
+    }
+    for(const [struct, address, typeParams] of loadParams) {
+      const typeTag = new StructTag(struct.moduleAddress, struct.moduleName, struct.structName, typeParams);
+      this.resourceKeyToLoadParams[this.getResourceKey(address, typeTag)] = [struct, address, typeParams];
     }
+    for(const owner of snapshot.watchedAddresses) {
+      this.watchAddress(new HexString(owner));
+    }
+    this.evictIfNeeded();
+  }
+
+  /*
+  Splits a ResourceKey into owner address and full type name
+  */
+  private splitResourceKey(resourceKey: string): [string, string] {
+    const separator = resourceKey.indexOf('/');
+    return [resourceKey.slice(0, separator), resourceKey.slice(separator + 1)];
+  }
+
+  /*
+  Computes the key a table item is cached under, from its table handle and key
+  */
+  getTableItemKey(handle: string, tableTypeTag: StructTag, key: any) {
+    const keyBytes = HexString.fromUint8Array(bcsSerializeMoveValue(key, tableTypeTag.typeParams[0]));
+    return this.getTableItemKeyFromBytes(handle, keyBytes.hex());
+  }
+
+  private getTableItemKeyFromBytes(handle: string, keyBytes: string) {
+    return `${TABLE_ITEM_KEY_PREFIX}${normalizeTableHandle(handle)}/${new HexString(keyBytes).hex()}`;
   }
 
   /*
   Computes ResourceKey from owner address and resource TypeTag
   */
   getResourceKey(ownerAddress: HexString, typeTag: TypeTag) {
-    return `${ownerAddress.hex()}/${getTypeTagFullname(typeTag)}`;
+    return `${normalizeAddressString(ownerAddress)}/${getTypeTagFullname(typeTag)}`;
   }
 }
\ No newline at end of file
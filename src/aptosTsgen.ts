@@ -1,8 +1,9 @@
 import { HexString } from "aptos";
 import fs from "fs";
 import path from "path";
-import { JsonFuncParamType, JsonFuncType, JsonModuleType, JsonNamedConstantType, JsonStructFieldType, JsonStructType } from "./jsonTypes";
-import { AtomicTypeTag, getTypeTagParamlessName, parseTypeTagOrThrow, StructTag, TypeParamIdx, TypeTag, VectorTag } from "./typeTag";
+import { JsonFuncParamType, JsonFuncType, JsonModuleType, JsonNamedConstantType, JsonStructFieldType, JsonStructType, JsonTypeParamType } from "./jsonTypes";
+import { isTableTypeTag } from "./parserRepo";
+import { addressEquals, AtomicTypeTag, getTypeTagFullname, getTypeTagParamlessName, isTypeTagConcrete, normalizeAddressString, parseTypeTagOrThrow, ReferenceTag, StructTag, TypeParamIdx, TypeTag, VectorTag } from "./typeTag";
 
 
 /*
@@ -11,6 +12,8 @@ What we generate for each JsonModuleType:
 - export const moduleName: string
 - one for each named constant:
   export const CONST_NAME: type = value;
+- export const errorCodes: ErrorCodeTable, which maps u64 constants' values to their names, so that Move aborts can be
+  reported by name. loadParsers registers it in the repo
 
 One for each struct
 
@@ -28,13 +31,29 @@ enum IMPORT {
   GET_TYPETAG_FULLNAME = "getTyptagFullName",
   APTOS_PARSER_REPO = "AptosParserRepo",
   PARSE_STRUCT_PROTO = "parseStructProto",
+  SERIALIZE_STRUCT_PROTO = "serializeStructProto",
   APTOS_CLIENT = "AptosClient",
   APTOS_ACCOUNT = "AptosAccount",
+  TX_SIGNER = "TxSigner",
   USER_TRANSACTION = "UserTransaction",
   SEND_AND_WAIT = "sendAndWait",
+  SEND_AND_WAIT_MULTI_AGENT = "sendAndWaitMultiAgent",
+  SIMULATE = "simulate",
+  SIMULATE_MULTI_AGENT = "simulateMultiAgent",
   BUILD_PAYLOAD = "buildPayload",
+  TX_OPTIONS = "TxOptions",
+  BUILD_PAYLOAD_BCS = "buildPayloadBCS",
+  BCS_SERIALIZE_MOVE_VALUE = "bcsSerializeMoveValue",
   STRUCT_TAG = "StructTag",
   APTOS_VECTOR_U8 = "AptosVectorU8",
+  SUBSTITUTE_TYPE_PARAMS = "substituteTypeParams",
+  ERROR_CODE_TABLE = "ErrorCodeTable",
+  SERIALIZE_SCRIPT_FUNCTION_ARGUMENT = "serializeScriptFunctionArgument",
+  EVENT_SUBSCRIPTION = "EventSubscription",
+  EVENT_SUBSCRIPTION_OPTIONS = "EventSubscriptionOptions",
+  EVENT_ITERATION_OPTIONS = "EventIterationOptions",
+  JSON_ABILITY_TYPE = "JsonAbilityType",
+  CHECK_TYPE_ARGUMENTS = "checkTypeArguments",
 }
 
 const IMPORT_MAP: Record<IMPORT, string> = {
@@ -47,13 +66,29 @@ const IMPORT_MAP: Record<IMPORT, string> = {
   [IMPORT.GET_TYPETAG_FULLNAME] : 'import { getTypeTagFullname } from "@manahippo/aptos-tsgen";',
   [IMPORT.APTOS_PARSER_REPO] : 'import { AptosParserRepo } from "@manahippo/aptos-tsgen";',
   [IMPORT.PARSE_STRUCT_PROTO] : 'import { parseStructProto } from "@manahippo/aptos-tsgen";',
+  [IMPORT.SERIALIZE_STRUCT_PROTO] : 'import { serializeStructProto } from "@manahippo/aptos-tsgen";',
   [IMPORT.APTOS_CLIENT] : 'import { AptosClient } from "aptos";',
   [IMPORT.APTOS_ACCOUNT] : 'import { AptosAccount } from "aptos";',
+  [IMPORT.TX_SIGNER] : 'import { TxSigner } from "@manahippo/aptos-tsgen";',
   [IMPORT.USER_TRANSACTION] : 'import { UserTransaction } from "aptos";',
   [IMPORT.SEND_AND_WAIT] : 'import { sendAndWait } from "@manahippo/aptos-tsgen";',
+  [IMPORT.SEND_AND_WAIT_MULTI_AGENT] : 'import { sendAndWaitMultiAgent } from "@manahippo/aptos-tsgen";',
+  [IMPORT.SIMULATE] : 'import { simulate } from "@manahippo/aptos-tsgen";',
+  [IMPORT.SIMULATE_MULTI_AGENT] : 'import { simulateMultiAgent } from "@manahippo/aptos-tsgen";',
   [IMPORT.BUILD_PAYLOAD] : 'import { buildPayload } from "@manahippo/aptos-tsgen";',
+  [IMPORT.TX_OPTIONS] : 'import { TxOptions } from "@manahippo/aptos-tsgen";',
+  [IMPORT.BUILD_PAYLOAD_BCS] : 'import { buildPayloadBCS } from "@manahippo/aptos-tsgen";',
+  [IMPORT.BCS_SERIALIZE_MOVE_VALUE] : 'import { bcsSerializeMoveValue } from "@manahippo/aptos-tsgen";',
   [IMPORT.STRUCT_TAG] : 'import { StructTag } from "@manahippo/aptos-tsgen";',
   [IMPORT.APTOS_VECTOR_U8] : 'import { AptosVectorU8 } from "@manahippo/aptos-tsgen";',
+  [IMPORT.SUBSTITUTE_TYPE_PARAMS] : 'import { substituteTypeParams } from "@manahippo/aptos-tsgen";',
+  [IMPORT.ERROR_CODE_TABLE] : 'import { ErrorCodeTable } from "@manahippo/aptos-tsgen";',
+  [IMPORT.SERIALIZE_SCRIPT_FUNCTION_ARGUMENT] : 'import { serializeScriptFunctionArgument } from "@manahippo/aptos-tsgen";',
+  [IMPORT.EVENT_SUBSCRIPTION] : 'import { EventSubscription } from "@manahippo/aptos-tsgen";',
+  [IMPORT.EVENT_SUBSCRIPTION_OPTIONS] : 'import { EventSubscriptionOptions } from "@manahippo/aptos-tsgen";',
+  [IMPORT.EVENT_ITERATION_OPTIONS] : 'import { EventIterationOptions } from "@manahippo/aptos-tsgen";',
+  [IMPORT.JSON_ABILITY_TYPE] : 'import { JsonAbilityType } from "@manahippo/aptos-tsgen";',
+  [IMPORT.CHECK_TYPE_ARGUMENTS] : 'import { checkTypeArguments } from "@manahippo/aptos-tsgen";',
 }
 
 /*
@@ -72,6 +107,11 @@ A more systematic treatment for type mapping
 
 */
 
+export type AptosTsgenOptions = {
+  // also emit build_bcs_payload_${func} for each script function
+  bcsPayload?: boolean;
+}
+
 export class AptosTsgen {
   lines: string[];
   imports: Set<IMPORT>;
@@ -80,7 +120,8 @@ export class AptosTsgen {
   constructor(
     public moduleDescriptors: JsonModuleType[],
     public outputDir: string,
-    public jsonIncludeDirs: string[]
+    public jsonIncludeDirs: string[],
+    public options: AptosTsgenOptions = {},
   ) { 
     if(this.outputDir.endsWith('/')) {
       this.outputDir = this.outputDir.substr(0, this.outputDir.length - 1);
@@ -138,15 +179,17 @@ export class AptosTsgen {
     // generate imports
     this.emitln('import { AptosParserRepo } from "@manahippo/aptos-tsgen";');
     for(const module of this.moduleDescriptors) {
-      this.emitln(`import * as X${module.address}_${module.module} from "./X${module.address}/${module.module}";`);
+      const dirname = AptosTsgen.getAddressDirname(module.address);
+      this.emitln(`import * as ${dirname}_${module.module} from "./${dirname}/${module.module}";`);
     }
     // generate big getParser() functions
     this.emitln("export function getParserRepo(): AptosParserRepo {");
     this.emitln("  const repo = new AptosParserRepo();");
     for(const module of this.moduleDescriptors) {
-      this.emitln(`  X${module.address}_${module.module}.loadParsers(repo);`);
+      this.emitln(`  ${AptosTsgen.getAddressDirname(module.address)}_${module.module}.loadParsers(repo);`);
     }
     this.emitln("  repo.addDefaultParsers();");
+    this.emitln("  repo.addDefaultSerializers();");
     this.emitln("  return repo;");
     this.emitln("}");
     // write to file
@@ -161,17 +204,17 @@ export class AptosTsgen {
   }
 
   generateIndexForAddresses() {
-    const addresses: Set<string> = new Set(this.moduleDescriptors.map(m=>m.address));;
+    const addresses: Set<string> = new Set(this.moduleDescriptors.map(m=>normalizeAddressString(m.address)));
     for(const address of addresses) {
       //
       this.lines = [];
-      const mods = this.moduleDescriptors.filter(m=>m.address === address);
+      const mods = this.moduleDescriptors.filter(m=>normalizeAddressString(m.address) === address);
       for(const mod of mods) {
         this.emitln(`export * as ${mod.module} from "./${mod.module}";`);
       }
       //
       const fileOutput = this.lines.join('\n');
-      const outputDirname = path.join(this.outputDir, `X${address}`);
+      const outputDirname = path.join(this.outputDir, AptosTsgen.getAddressDirname(address));
       const outputFilename = path.join(outputDirname, "index.ts");
       if(!fs.existsSync(outputDirname)) {
         fs.mkdirSync(outputDirname);
@@ -201,6 +244,8 @@ export class AptosTsgen {
       this.generateConstant(constant);
     }
     this.emitln("");
+    this.generateErrorCodes(module.constants);
+    this.emitln("");
     // structs
     for(const struct of module.structs) {
       this.generateStruct(struct, module);
@@ -217,9 +262,12 @@ export class AptosTsgen {
     this.emitln("export function loadParsers(repo: AptosParserRepo) {")
     for(const struct of module.structs) {
       // TODO: exlude String and FixedPoint32
-      const paramlessName = `${module.address}::${module.module}::${struct.name}`;
+      const paramlessName = `${normalizeAddressString(module.address)}::${module.module}::${struct.name}`;
       this.emitln(`  repo.addParser("${paramlessName}", ${struct.name}.${struct.name}Parser);`);
+      this.emitln(`  repo.addSerializer("${paramlessName}", ${struct.name}.${struct.name}Serializer);`);
+      this.emitln(`  repo.addStructInfo(${struct.name});`);
     }
+    this.emitln("  repo.addErrorCodes(moduleAddress, moduleName, errorCodes);");
     this.emitln("}")
 
     // collect imports
@@ -236,7 +284,7 @@ export class AptosTsgen {
 
     // write to file
     const fileOutput = importLines.join('\n') + "\n\n" + this.lines.join('\n');
-    const outputDirname = path.join(this.outputDir, `X${module.address}`);
+    const outputDirname = path.join(this.outputDir, AptosTsgen.getAddressDirname(module.address));
     const outputFilename = path.join(outputDirname, `${module.module}.ts`);
     if(!fs.existsSync(this.outputDir)) {
       fs.mkdirSync(this.outputDir);
@@ -260,11 +308,11 @@ export class AptosTsgen {
       tsTypeName = "boolean";
       tsInitValue = constant.value;
     }
-    else if (typeTag === AtomicTypeTag.U8) {
+    else if (typeTag === AtomicTypeTag.U8 || typeTag === AtomicTypeTag.U16 || typeTag === AtomicTypeTag.U32) {
       tsTypeName = "number";
       tsInitValue = constant.value;
     }
-    else if (typeTag === AtomicTypeTag.U64 || typeTag === AtomicTypeTag.U128) {
+    else if (typeTag === AtomicTypeTag.U64 || typeTag === AtomicTypeTag.U128 || typeTag === AtomicTypeTag.U256) {
       tsTypeName = "bigInt.BigInteger";
       tsInitValue = `bigInt("${constant.value}")`;
       this.imports.add(IMPORT.BIGINT)
@@ -280,6 +328,26 @@ export class AptosTsgen {
     this.emitln(`export const ${constant.name}: ${tsTypeName} = ${tsInitValue};`);
   }
 
+  generateErrorCodes(constants: JsonNamedConstantType[]) {
+    // abort codes are u64. When several constants share a value, prefer the conventional E-prefixed error names
+    const codeToName: Record<string, string> = {};
+    for(const constant of constants) {
+      if (constant.type !== AtomicTypeTag.U64) {
+        continue;
+      }
+      const existing = codeToName[constant.value];
+      if (!existing || (!existing.startsWith('E') && constant.name.startsWith('E'))) {
+        codeToName[constant.value] = constant.name;
+      }
+    }
+    this.imports.add(IMPORT.ERROR_CODE_TABLE);
+    this.emitln("export const errorCodes: ErrorCodeTable = {");
+    for(const code in codeToName) {
+      this.emitln(`  "${code}": "${codeToName[code]}",`);
+    }
+    this.emitln("};");
+  }
+
   typeTagToTsType(typeTag: TypeTag, module: JsonModuleType, allowStruct: boolean): string {
     /*
     Used by 2 locations:
@@ -305,7 +373,7 @@ export class AptosTsgen {
         if(!allowStruct) {
           throw new Error(`StructTag not allowed in: ${typeTag}`);
         }
-        const sameAddress = typeTag.address.toShortString() === new HexString(module.address).toShortString();
+        const sameAddress = addressEquals(typeTag.address, module.address);
         const isInternal = sameAddress && typeTag.module === module.module;
         if (isInternal) {
           tsType = typeTag.name;
@@ -315,8 +383,14 @@ export class AptosTsgen {
           this.importedModulesUnderSameAddress.add(`${typeTag.module}`);
         }
         else {
-          tsType = `X${typeTag.address}.${typeTag.module}.${typeTag.name}`;
-          this.importedAddresses.add(`X${typeTag.address}`);
+          const dirname = AptosTsgen.getAddressDirname(typeTag.address);
+          tsType = `${dirname}.${typeTag.module}.${typeTag.name}`;
+          this.importedAddresses.add(dirname);
+        }
+        // generic structs are instantiated with the TS types of their type arguments
+        if (typeTag.typeParams.length > 0) {
+          const tsTypeArgs = typeTag.typeParams.map(p => this.typeTagToTsType(p, module, allowStruct));
+          tsType = `${tsType}<${tsTypeArgs.join(', ')}>`;
         }
       }
     }
@@ -333,13 +407,17 @@ export class AptosTsgen {
       }
     }
     else if (typeTag instanceof TypeParamIdx) {
-      tsType = 'any';
+      // refers to the generic parameter declared by the enclosing class or method
+      tsType = AptosTsgen.getTsTypeParamName(typeTag.index);
+    }
+    else if (typeTag instanceof ReferenceTag) {
+      tsType = this.typeTagToTsType(typeTag.referencedType, module, allowStruct);
     }
     else {
-      if(typeTag === AtomicTypeTag.U8) {
+      if(typeTag === AtomicTypeTag.U8 || typeTag === AtomicTypeTag.U16 || typeTag === AtomicTypeTag.U32) {
         tsType = "number";
       }
-      else if(typeTag === AtomicTypeTag.U64 || typeTag === AtomicTypeTag.U128) {
+      else if(typeTag === AtomicTypeTag.U64 || typeTag === AtomicTypeTag.U128 || typeTag === AtomicTypeTag.U256) {
         this.imports.add(IMPORT.BIGINT);
         tsType = "bigInt.BigInteger";
       }
@@ -359,17 +437,23 @@ export class AptosTsgen {
   }
 
   generateStruct(struct: JsonStructType, module: JsonModuleType) {
-    this.emitln(`export class ${struct.name} {`);
+    // generic structs become generic classes, e.g. Pool<T0 = any, T1 = any>
+    const numTypeParams = struct.type_params.length;
+    const tsTypeParamsDecl = AptosTsgen.getTsTypeParamsDecl(numTypeParams);
+    const tsClassType = `${struct.name}${AptosTsgen.getTsTypeParamsUse(numTypeParams)}`;
+    this.emitln(`export class ${struct.name}${tsTypeParamsDecl} {`);
     this.emitln("  static moduleAddress = moduleAddress;");
     this.emitln("  static moduleName = moduleName;");
     this.emitln(`  static structName: string = "${struct.name}";`);
+    this.imports.add(IMPORT.JSON_ABILITY_TYPE);
+    this.emitln(`  static abilities: JsonAbilityType[] = ${AptosTsgen.getAbilitiesString(struct.abilities)};`);
 
     // type parameters
     this.imports.add(IMPORT.TYPE_PARAM_DECL_TYPE);
     this.emitln("  static typeParameters: TypeParamDeclType[] = [");
     struct.type_params.forEach((typeParam, idx) => {
       const lastComma = (idx + 1) === struct.type_params.length ? "" : ",";
-      this.emitln(`    {name: "${typeParam.name}", isPhantom: ${typeParam.is_phantom}}${lastComma}`);
+      this.emitln(`    ${AptosTsgen.getTypeParamDeclString(typeParam)}${lastComma}`);
     });
     this.emitln("  ];");
 
@@ -385,6 +469,7 @@ export class AptosTsgen {
     this.emitln("");
 
     const events:[JsonStructFieldType, TypeTag][] = [];
+    const tables:[JsonStructFieldType, TypeTag, TypeTag][] = [];
 
     // the actual member properties of the class:
     const fieldNameToTsType: Record<string, string> = {};
@@ -400,6 +485,9 @@ export class AptosTsgen {
         }
         events.push([field, typeTag.typeParams[0]]);
       }
+      if(isTableTypeTag(typeTag)) {
+        tables.push([field, typeTag.typeParams[0], typeTag.typeParams[1]]);
+      }
     });
     this.emitln("");
 
@@ -417,9 +505,22 @@ export class AptosTsgen {
     this.imports.add(IMPORT.TYPETAG);
     this.imports.add(IMPORT.APTOS_PARSER_REPO);
     this.imports.add(IMPORT.PARSE_STRUCT_PROTO);
-    this.emitln(`  static ${struct.name}Parser(data:any, typeTag: TypeTag, repo: AptosParserRepo) : ${struct.name} {`);
+    this.emitln(`  static ${struct.name}Parser${tsTypeParamsDecl}(data:any, typeTag: TypeTag, repo: AptosParserRepo) : ${tsClassType} {`);
     this.emitln(`    const proto = parseStructProto(data, typeTag, repo, ${struct.name});`);
-    this.emitln(`    return new ${struct.name}(proto, typeTag);`);
+    this.emitln(`    return new ${tsClassType}(proto, typeTag);`);
+    this.emitln(`  }`);
+    this.emitln("");
+
+    // the static serializer function, reverse of the parser
+    this.imports.add(IMPORT.SERIALIZE_STRUCT_PROTO);
+    this.emitln(`  static ${struct.name}Serializer(value: any, typeTag: TypeTag, repo: AptosParserRepo) : any {`);
+    this.emitln(`    return serializeStructProto(value, typeTag, repo, ${struct.name});`);
+    this.emitln(`  }`);
+    this.emitln("");
+
+    // converts this instance back into the JSON value returned by the REST API
+    this.emitln(`  toMoveJson(repo: AptosParserRepo) : any {`);
+    this.emitln(`    return repo.serialize(this, this.typeTag);`);
     this.emitln(`  }`);
     this.emitln("");
 
@@ -429,82 +530,218 @@ export class AptosTsgen {
       this.imports.add(IMPORT.APTOS_CLIENT);
       this.imports.add(IMPORT.HEXSTRING);
       this.imports.add(IMPORT.TYPETAG);
-      this.emitln(`  static async load(repo: AptosParserRepo, client: AptosClient, address: HexString, typeParams: TypeTag[]) {`);
+      this.emitln(`  static async load${tsTypeParamsDecl}(repo: AptosParserRepo, client: AptosClient, address: HexString, typeParams: TypeTag[]): Promise<${tsClassType}> {`);
       this.emitln(`    const result = await repo.loadResource(client, address, ${struct.name}, typeParams);`);
-      this.emitln(`    return result as unknown as ${struct.name};`);
+      this.emitln(`    return result as unknown as ${tsClassType};`);
       this.emitln(`  }`);
       this.emitln("");
     }
 
-    // loadEvents
+    // loadEvents, iterate and subscribe
     if (events.length > 0) {
       for(const evt of events) {
         const [jsonField, eventTypeTag] = evt;
         const eventTypeTsname = this.typeTagToTsType(eventTypeTag, module, true);
-        this.emitln(`  static async load_${jsonField.name}(`);
+        this.emitln(`  static async load_${jsonField.name}${tsTypeParamsDecl}(`);
         this.emitln("    repo: AptosParserRepo,");
         this.emitln("    client: AptosClient,");
         this.emitln("    address: HexString,"); 
         this.emitln("    typeParams: TypeTag[],");
-        this.emitln("  ) {");
-        this.imports.add(IMPORT.PARSE_TYPE_TAG_OR_THROW);
-        this.imports.add(IMPORT.STRUCT_TAG);
-        this.emitln(`    const containerTypeTag = parseTypeTagOrThrow("${module.address}::${module.module}::${struct.name}");`);
-        this.emitln("    if(!(containerTypeTag instanceof StructTag)) {");
-        this.emitln("      throw new Error('Unreachable');");
-        this.emitln("    }");
-        this.emitln(`    containerTypeTag.typeParams = typeParams;`);
-        this.emitln(`    const events = await repo.loadEvents(client, address, containerTypeTag, "${jsonField.name}")`);
+        this.emitln("    query?: { start?: number; limit?: number },");
+        this.emitln(`  ): Promise<${eventTypeTsname}[]> {`);
+        this.emitContainerTypeTag(struct, module);
+        this.emitln(`    const events = await repo.loadEvents(client, address, containerTypeTag, "${jsonField.name}", query)`);
         this.emitln(`    return events as unknown as ${eventTypeTsname}[];`);
         this.emitln(`  }`);
+
+        this.imports.add(IMPORT.EVENT_ITERATION_OPTIONS);
+        this.emitln(`  static iterate_${jsonField.name}${tsTypeParamsDecl}(`);
+        this.emitln("    repo: AptosParserRepo,");
+        this.emitln("    client: AptosClient,");
+        this.emitln("    address: HexString,");
+        this.emitln("    typeParams: TypeTag[],");
+        this.emitln("    options?: EventIterationOptions,");
+        this.emitln(`  ): AsyncGenerator<${eventTypeTsname}> {`);
+        this.emitContainerTypeTag(struct, module);
+        this.emitln(`    return repo.iterateEvents(client, address, containerTypeTag, "${jsonField.name}", options);`);
+        this.emitln(`  }`);
+
+        this.imports.add(IMPORT.EVENT_SUBSCRIPTION);
+        this.imports.add(IMPORT.EVENT_SUBSCRIPTION_OPTIONS);
+        this.emitln(`  static subscribe_${jsonField.name}${tsTypeParamsDecl}(`);
+        this.emitln("    repo: AptosParserRepo,");
+        this.emitln("    client: AptosClient,");
+        this.emitln("    address: HexString,");
+        this.emitln("    typeParams: TypeTag[],");
+        this.emitln("    options?: EventSubscriptionOptions,");
+        this.emitln(`  ): EventSubscription<${eventTypeTsname}> {`);
+        this.emitContainerTypeTag(struct, module);
+        this.emitln(`    return new EventSubscription<${eventTypeTsname}>(client, repo, address, containerTypeTag, "${jsonField.name}", options);`);
+        this.emitln(`  }`);
       }
     }
 
+    // get_<field>: reads a table item through the table's handle
+    for(const [jsonField, keyTypeTag, valueTypeTag] of tables) {
+      const keyTsType = this.typeTagToTsType(keyTypeTag, module, true);
+      const valueTsType = this.typeTagToTsType(valueTypeTag, module, true);
+      this.imports.add(IMPORT.APTOS_PARSER_REPO);
+      this.imports.add(IMPORT.APTOS_CLIENT);
+      this.emitln(`  async get_${jsonField.name}(repo: AptosParserRepo, client: AptosClient, key: ${keyTsType}): Promise<${valueTsType}> {`);
+      this.emitln(`    const item = await repo.loadTableFieldItem(client, this, ${struct.name}, "${jsonField.name}", key);`);
+      this.emitln(`    return item as ${valueTsType};`);
+      this.emitln(`  }`);
+      this.emitln("");
+    }
+
     // closes class
     this.emitln(`}`);
 
   }
 
+  /*
+  Emits `containerTypeTag`, the StructTag of struct instantiated with the `typeParams` argument
+  */
+  emitContainerTypeTag(struct: JsonStructType, module: JsonModuleType) {
+    this.imports.add(IMPORT.PARSE_TYPE_TAG_OR_THROW);
+    this.imports.add(IMPORT.STRUCT_TAG);
+    this.emitln(`    const containerTypeTag = parseTypeTagOrThrow("${module.address}::${module.module}::${struct.name}");`);
+    this.emitln("    if(!(containerTypeTag instanceof StructTag)) {");
+    this.emitln("      throw new Error('Unreachable');");
+    this.emitln("    }");
+    this.emitln(`    containerTypeTag.typeParams = typeParams;`);
+  }
+
   generateScriptFunction(func: JsonFuncType, module: JsonModuleType) {
     /*
-    We output 2 things:
-    - transaction sender, which accepts AptosClient and AptosAccount as input
+    We output 3 things (4 with the bcsPayload option):
+    - transaction sender, which accepts AptosClient and an AptosAccount or any other TxSigner as input. Functions
+      that take 2 or more signers get a multi-agent sender, which accepts one signer per signer parameter instead
+    - simulate_${func.name}: same inputs as the sender plus an AptosParserRepo, dry-runs the transaction
     - payload builder: which only needs function arguments as input
+    - BCS payload builder: same as payload builder, but produces a BCS-encoded payload
+    All are generic over the function's type parameters, which type the arguments declared with a type parameter
     */
-    // emit transaction sender
+    const IS_SIMULATION = true;
+    this.generateTransactionSender(func, module, !IS_SIMULATION);
+    this.generateTransactionSender(func, module, IS_SIMULATION);
+
+    // emit payload builder
+    const tsTypeParamsDecl = AptosTsgen.getTsTypeParamsDecl(func.type_params.length);
+    const paramsWithoutSigners = func.params.filter(a=>!AptosTsgen.isSignerParam(a));
+    this.emitln(`export function build_payload_${func.name}${tsTypeParamsDecl}(`);
+    this.emitFunctionParameters(paramsWithoutSigners, module);
+    this.emitln("  typeParams: TypeTag[],");
+    this.imports.add(IMPORT.APTOS_PARSER_REPO);
+    this.emitln("  repo?: AptosParserRepo,");
+    this.emitln(") {");
+    this.emitTypeArgumentsCheck(func, module, "repo ?? null");
+    this.emitln("  const typeParamStrings = typeParams.map(t=>getTypeTagFullname(t));");
+    this.imports.add(IMPORT.BUILD_PAYLOAD);
+    this.emitln("  return buildPayload(");
+    this.emitFunctionArguments(func, module, paramsWithoutSigners);
+    // close call to buildPayload
+    this.emitln("  );");
+    // close payload builder function
+    this.emitln("}");
+
+    if (this.options.bcsPayload) {
+      this.generateBCSPayloadBuilder(func, module, paramsWithoutSigners);
+    }
+  }
+
+  generateTransactionSender(func: JsonFuncType, module: JsonModuleType, isSimulation: boolean) {
+    const tsTypeParamsDecl = AptosTsgen.getTsTypeParamsDecl(func.type_params.length);
+    const funcName = isSimulation ? `simulate_${func.name}` : func.name;
     this.imports.add(IMPORT.APTOS_CLIENT);
     this.imports.add(IMPORT.APTOS_ACCOUNT);
-    this.emitln(`export async function ${func.name}(`);
+    this.imports.add(IMPORT.TX_SIGNER);
+    this.emitln(`export async function ${funcName}${tsTypeParamsDecl}(`);
     this.emitln("  client: AptosClient,");
-    this.emitln("  account: AptosAccount,");
-    // FIXME: how do we handle multiple &signer cases?
-    const paramsWithoutSigners = func.params.filter(a=>a.type !== "&signer" && a.type !== 'signer');
+    if (isSimulation) {
+      // used to parse the predicted changes and events
+      this.imports.add(IMPORT.APTOS_PARSER_REPO);
+      this.emitln("  repo: AptosParserRepo,");
+    }
+    const signerParams = func.params.filter(a=>AptosTsgen.isSignerParam(a));
+    const isMultiAgent = signerParams.length > 1;
+    if (isMultiAgent) {
+      signerParams.forEach(param => {
+        this.emitln(`  ${param.name}: AptosAccount | TxSigner,`);
+      });
+    }
+    else {
+      this.emitln("  account: AptosAccount | TxSigner,");
+    }
+    const paramsWithoutSigners = func.params.filter(a=>!AptosTsgen.isSignerParam(a));
+    this.emitFunctionParameters(paramsWithoutSigners, module);
+    this.emitln("  typeParams: TypeTag[],");
+    this.imports.add(IMPORT.TX_OPTIONS);
+    this.emitln("  options?: TxOptions,");
+    this.emitln(") {");
+    this.emitTypeArgumentsCheck(func, module, isSimulation ? "repo" : "options?.repo ?? null");
+    this.emitln("  const typeParamStrings = typeParams.map(t=>getTypeTagFullname(t));");
+    let runtimeFunc: IMPORT;
+    if (isMultiAgent) {
+      runtimeFunc = isSimulation ? IMPORT.SIMULATE_MULTI_AGENT : IMPORT.SEND_AND_WAIT_MULTI_AGENT;
+    }
+    else {
+      runtimeFunc = isSimulation ? IMPORT.SIMULATE : IMPORT.SEND_AND_WAIT;
+    }
+    this.imports.add(runtimeFunc);
+    this.emitln(`  return ${runtimeFunc}(`);
+    // client
+    this.emitln("    client,");
+    if (isSimulation) {
+      this.emitln("    repo,");
+    }
+    if (isMultiAgent) {
+      // accounts, the first one being the sender
+      this.emitln(`    [${signerParams.map(p=>p.name).join(', ')}],`);
+    }
+    else {
+      // account
+      this.emitln("    account,"); //
+    }
+    this.emitFunctionArguments(func, module, paramsWithoutSigners);
+    this.emitln("    options,");
+    // close call to runtimeFunc
+    this.emitln("  );");
+    // close transaction sender function
+    this.emitln("}");
+  }
+
+  /*
+  Emits the check of typeParams against the function's type parameters and their ability constraints, so that wrong
+  type arguments fail before anything is sent. repoExpr is the repo whose struct classes provide struct abilities
+  */
+  emitTypeArgumentsCheck(func: JsonFuncType, module: JsonModuleType, repoExpr: string) {
+    this.imports.add(IMPORT.CHECK_TYPE_ARGUMENTS);
+    this.imports.add(IMPORT.TYPE_PARAM_DECL_TYPE);
+    const typeParamDecls = func.type_params.map(AptosTsgen.getTypeParamDeclString).join(', ');
+    this.emitln(`  const typeParamDecls: TypeParamDeclType[] = [${typeParamDecls}];`);
+    this.emitln(`  checkTypeArguments("${module.address}::${module.module}::${func.name}", typeParamDecls, typeParams, ${repoExpr});`);
+  }
+
+  emitFunctionParameters(paramsWithoutSigners: JsonFuncParamType[], module: JsonModuleType) {
     paramsWithoutSigners.forEach(param => {
       const tag = parseTypeTagOrThrow(param.type);
       const ALLOW_STRUCT = false;
-      // FIXME: what if tag is a type-parameter? In this case, the tsType will be "any", and we will need to use 
-      // information in "typeParams" to figure out how to interpret the parameter
       let tsType = this.typeTagToTsType(tag, module, ALLOW_STRUCT);
       this.emitln(`  ${param.name}: ${tsType},`);
     });
     this.imports.add(IMPORT.TYPETAG);
-    this.imports.add(IMPORT.GET_TYPETAG_FULLNAME);
-    this.emitln("  typeParams: TypeTag[],");
-    this.emitln(") {");
-    this.emitln("  const typeParamStrings = typeParams.map(t=>getTypeTagFullname(t));");
-    this.imports.add(IMPORT.SEND_AND_WAIT);
-    this.emitln("  return sendAndWait(");
-    // client
-    this.emitln("    client,");
-    // account
-    this.emitln("    account,"); //
+  }
+
+  emitFunctionArguments(func: JsonFuncType, module: JsonModuleType, paramsWithoutSigners: JsonFuncParamType[]) {
     // funcname
     this.emitln(`    "${module.address}::${module.module}::${func.name}",`);
     // typeArguments
+    this.imports.add(IMPORT.GET_TYPETAG_FULLNAME);
     this.emitln(`    typeParamStrings,`);
     // args
     if (paramsWithoutSigners.length === 0) {
-      this.emitln("    []");
+      this.emitln("    [],");
     }
     else {
       this.emitln("    [");
@@ -513,32 +750,25 @@ export class AptosTsgen {
         const tsHandler = this.getTsHandlerForScriptFunctionParameter(tag, param);
         this.emitln(`      ${tsHandler},`);
       });
-      this.emitln("    ]");
+      this.emitln("    ],");
     }
-    // close call to sendAndWait
-    this.emitln("  );");
-    // close transaction sender function
-    this.emitln("}");
+  }
 
-    // emit payload builder
-    this.emitln(`export function build_payload_${func.name}(`);
-    paramsWithoutSigners.forEach(param => {
-      const tag = parseTypeTagOrThrow(param.type);
-      const ALLOW_STRUCT = false;
-      // FIXME: what if tag is a type-parameter? In this case, the tsType will be "any", and we will need to use 
-      // information in "typeParams" to figure out how to interpret the parameter
-      let tsType = this.typeTagToTsType(tag, module, ALLOW_STRUCT);
-      this.emitln(`  ${param.name}: ${tsType},`);
-    });
+  generateBCSPayloadBuilder(func: JsonFuncType, module: JsonModuleType, paramsWithoutSigners: JsonFuncParamType[]) {
+    const tsTypeParamsDecl = AptosTsgen.getTsTypeParamsDecl(func.type_params.length);
+    this.emitln(`export function build_bcs_payload_${func.name}${tsTypeParamsDecl}(`);
+    this.emitFunctionParameters(paramsWithoutSigners, module);
     this.emitln("  typeParams: TypeTag[],");
+    this.imports.add(IMPORT.APTOS_PARSER_REPO);
+    this.emitln("  repo?: AptosParserRepo,");
     this.emitln(") {");
-    this.emitln("  const typeParamStrings = typeParams.map(t=>getTypeTagFullname(t));");
-    this.imports.add(IMPORT.BUILD_PAYLOAD);
-    this.emitln("  return buildPayload(");
+    this.emitTypeArgumentsCheck(func, module, "repo ?? null");
+    this.imports.add(IMPORT.BUILD_PAYLOAD_BCS);
+    this.emitln("  return buildPayloadBCS(");
     // funcname
     this.emitln(`    "${module.address}::${module.module}::${func.name}",`);
     // typeArguments
-    this.emitln(`    typeParamStrings,`);
+    this.emitln(`    typeParams,`);
     // args
     if (paramsWithoutSigners.length === 0) {
       this.emitln("    []");
@@ -547,14 +777,23 @@ export class AptosTsgen {
       this.emitln("    [");
       paramsWithoutSigners.forEach(param=>{
         const tag = parseTypeTagOrThrow(param.type);
-        const tsHandler = this.getTsHandlerForScriptFunctionParameter(tag, param);
-        this.emitln(`      ${tsHandler},`);
+        if(!AptosTsgen.isAcceptableConstantType(tag)) {
+          throw new Error(`This is not an acceptable type for script function parameter: ${JSON.stringify(tag)}`);
+        }
+        this.imports.add(IMPORT.BCS_SERIALIZE_MOVE_VALUE);
+        this.imports.add(IMPORT.PARSE_TYPE_TAG_OR_THROW);
+        let tagExpr = `parseTypeTagOrThrow("${param.type}")`;
+        if (!isTypeTagConcrete(tag)) {
+          this.imports.add(IMPORT.SUBSTITUTE_TYPE_PARAMS);
+          tagExpr = `substituteTypeParams(${tagExpr}, typeParams)`;
+        }
+        this.emitln(`      bcsSerializeMoveValue(${param.name}, ${tagExpr}),`);
       });
       this.emitln("    ]");
     }
-    // close call to buildPayload
+    // close call to buildPayloadBCS
     this.emitln("  );");
-    // close payload builder function
+    // close BCS payload builder function
     this.emitln("}");
   }
 
@@ -571,13 +810,17 @@ export class AptosTsgen {
       // element is a vector<u8>, tsType=AptosVectorU8
       return `(x)=>{return x.hex();}`;
     }
-    else if (elementType.elementType === AtomicTypeTag.U64 || elementType.elementType === AtomicTypeTag.U128) {
-      // element is a vector<U64/U128>, tsType=bigInt.BigInteger[]
+    else if (AptosTsgen.isBigIntType(elementType.elementType)) {
+      // element is a vector<U64/U128/U256>, tsType=bigInt.BigInteger[]
       return "(bigiArray)=>{return bigiArray.map(bigi=>bigi.toString());}";
     }
+    else if (elementType.elementType === AtomicTypeTag.U16 || elementType.elementType === AtomicTypeTag.U32) {
+      // element is a vector<U16/U32>, tsType=number[]
+      return "numArray=>numArray"
+    }
     else if (elementType.elementType === AtomicTypeTag.Bool) {
       // element is a vector<bool>, tsType=boolean[]
-      return "boolArray=>return boolArray"
+      return "boolArray=>boolArray"
     }
     else if (elementType.elementType === AtomicTypeTag.Address) {
       // element is a vector<address>, tsType=HexString[]
@@ -591,6 +834,13 @@ export class AptosTsgen {
     if(!AptosTsgen.isAcceptableConstantType(tag)) {
       throw new Error(`This is not an acceptable type for script function parameter: ${JSON.stringify(tag)}`);
     }
+    if (!isTypeTagConcrete(tag)) {
+      // T, vector<T>, etc.: the actual type is determined by typeParams, so serialization happens at runtime
+      this.imports.add(IMPORT.SERIALIZE_SCRIPT_FUNCTION_ARGUMENT);
+      this.imports.add(IMPORT.SUBSTITUTE_TYPE_PARAMS);
+      this.imports.add(IMPORT.PARSE_TYPE_TAG_OR_THROW);
+      return `serializeScriptFunctionArgument(${param.name}, substituteTypeParams(parseTypeTagOrThrow("${param.type}"), typeParams))`;
+    }
     if (tag instanceof VectorTag) {
       // vector<u8> came in as AptosVectorU8, gets converted to HexString
       // TODO: provide a special type called AptosVecU8 to handle this mess specifically?
@@ -601,12 +851,16 @@ export class AptosTsgen {
       actual array value
       - number[]: 
       - HexString[] for vector<address>
-      - BigInteger[] for vector<u64/128>
+      - BigInteger[] for vector<u64/128/256>
       - boolean[] for vector<bool>, which is just good
       */
-      if (tag.elementType === AtomicTypeTag.U64 || tag.elementType === AtomicTypeTag.U128) {
+      if (AptosTsgen.isBigIntType(tag.elementType)) {
         return `${param.name}.map(bigi => bigi.toString())`
       }
+      else if (tag.elementType === AtomicTypeTag.U16 || tag.elementType === AtomicTypeTag.U32) {
+        // number[]
+        return param.name;
+      }
       else if (tag.elementType === AtomicTypeTag.Bool) {
         // bool[]
         return param.name;
@@ -634,8 +888,11 @@ export class AptosTsgen {
       throw new Error(`Struct type cannot be used as argument to script functions: ${JSON.stringify(tag)}`);
     }
     else if (tag instanceof TypeParamIdx) {
-      // FIXME: extra handler needed
-      throw new Error("Type parameter in script function signature currently not supported by tsgen");
+      // should be unreachable, handled by the runtime serializer above
+      throw new Error(`Unexpected type parameter in script function signature: ${JSON.stringify(tag)}`);
+    }
+    else if (tag instanceof ReferenceTag) {
+      throw new Error(`Reference type cannot be used as argument to script functions: ${getTypeTagFullname(tag)}`);
     }
     else if (tag === AtomicTypeTag.Address) {
       return param.name; // nothing needed
@@ -643,10 +900,10 @@ export class AptosTsgen {
     else if (tag === AtomicTypeTag.Bool) {
       return param.name; // nothing needed
     }
-    else if (tag === AtomicTypeTag.U8) {
+    else if (tag === AtomicTypeTag.U8 || tag === AtomicTypeTag.U16 || tag === AtomicTypeTag.U32) {
       return param.name; // nothing needed
     }
-    else if ([AtomicTypeTag.U64, AtomicTypeTag.U128].includes(tag)) {
+    else if (AptosTsgen.isBigIntType(tag)) {
       // use string literal
       return `${param.name}.toString()`;
     }
@@ -655,6 +912,56 @@ export class AptosTsgen {
     }
   }
 
+  static isSignerParam(param: JsonFuncParamType): boolean {
+    // signer, &signer
+    const tag = parseTypeTagOrThrow(param.type);
+    const referenced = tag instanceof ReferenceTag ? tag.referencedType : tag;
+    return referenced === AtomicTypeTag.Signer;
+  }
+
+  static getAbilitiesString(abilities: string[]): string {
+    return `[${abilities.map(a => `"${a}"`).join(', ')}]`;
+  }
+
+  // a TypeParamDeclType literal, with the type parameter's ability constraints (descriptors from older tools may lack them)
+  static getTypeParamDeclString(typeParam: JsonTypeParamType): string {
+    return `{name: "${typeParam.name}", isPhantom: ${typeParam.is_phantom}, constraints: ${AptosTsgen.getAbilitiesString(typeParam.abilities ?? [])}}`;
+  }
+
+  // integer types that map to bigInt.BigInteger, and go out as decimal strings
+  static isBigIntType(tag: TypeTag): boolean {
+    return tag === AtomicTypeTag.U64 || tag === AtomicTypeTag.U128 || tag === AtomicTypeTag.U256;
+  }
+
+  /*
+  Output directory (and import name) of the modules of an address, e.g. X0x1. Always uses the canonical address, no
+  matter how module descriptors and type names spell it
+  */
+  static getAddressDirname(address: string | HexString): string {
+    return `X${normalizeAddressString(address)}`;
+  }
+
+  static getTsTypeParamName(index: number): string {
+    return `T${index}`;
+  }
+
+  static getTsTypeParamsDecl(numTypeParams: number): string {
+    // defaults to any so that the class can still be referenced without type arguments
+    if (numTypeParams === 0) {
+      return "";
+    }
+    const names = [...Array(numTypeParams).keys()].map(idx => `${AptosTsgen.getTsTypeParamName(idx)} = any`);
+    return `<${names.join(', ')}>`;
+  }
+
+  static getTsTypeParamsUse(numTypeParams: number): string {
+    if (numTypeParams === 0) {
+      return "";
+    }
+    const names = [...Array(numTypeParams).keys()].map(idx => AptosTsgen.getTsTypeParamName(idx));
+    return `<${names.join(', ')}>`;
+  }
+
   static isAcceptableConstantType(tag: TypeTag): boolean {
     if (tag instanceof StructTag) {
       return false;
@@ -663,15 +970,21 @@ export class AptosTsgen {
       return AptosTsgen.isAcceptableConstantType(tag.elementType);
     }
     else if (tag instanceof TypeParamIdx) {
-      // FIXME: actually, script functions do support type parameters as argument type
+      // whether the concrete type is acceptable can only be checked at runtime
+      return true;
+    }
+    else if (tag instanceof ReferenceTag) {
       return false;
     }
     else {
       return [
         AtomicTypeTag.Address, 
         AtomicTypeTag.Bool, 
+        AtomicTypeTag.U256,
         AtomicTypeTag.U128, 
         AtomicTypeTag.U64, 
+        AtomicTypeTag.U32,
+        AtomicTypeTag.U16,
         AtomicTypeTag.U8
       ].includes(tag);
     }
@@ -0,0 +1,233 @@
+import { BCS, HexString, TxnBuilderTypes } from "aptos";
+import bigInt from "big-integer";
+import { AptosParserRepo, AptosVectorU8, numbersOrStringToHexString } from "./parserRepo";
+import { AtomicTypeTag, getTypeTagFullname, getTypeTagParamlessName, normalizeAddressString, StructTag, substituteTypeParams, TypeParamIdx, TypeTag, VectorTag } from "./typeTag";
+
+/*
+BCS encoding of TypeTags and Move values, used to build script function payloads without the node's encode endpoint
+
+  Move type           accepted TS values
+  bool                boolean
+  u8/u16/u32          number
+  u64/u128/u256       BigInteger, number, string
+  address             HexString, string
+  vector<u8>          AptosVectorU8, HexString, Uint8Array, number[]
+  vector<T>           T[]
+  0x1::ASCII::String  string
+*/
+
+/*
+TxnBuilderTypes predates u16, u32 and u256. Their tags serialize as the TypeTag variants Move gave them: 8, 9 and 10
+*/
+class TypeTagVariant extends TxnBuilderTypes.TypeTag {
+  constructor(public variantIndex: number) {
+    super();
+  }
+  serialize(serializer: BCS.Serializer) {
+    serializer.serializeU32AsUleb128(this.variantIndex);
+  }
+}
+
+const TYPE_TAG_U16_VARIANT = 8;
+const TYPE_TAG_U32_VARIANT = 9;
+const TYPE_TAG_U256_VARIANT = 10;
+
+export function structTagToBCS(structTag: StructTag): TxnBuilderTypes.StructTag {
+  return new TxnBuilderTypes.StructTag(
+    TxnBuilderTypes.AccountAddress.fromHex(structTag.address),
+    new TxnBuilderTypes.Identifier(structTag.module),
+    new TxnBuilderTypes.Identifier(structTag.name),
+    structTag.typeParams.map(typeTagToBCS),
+  );
+}
+
+export function typeTagToBCS(typeTag: TypeTag): TxnBuilderTypes.TypeTag {
+  if (typeTag instanceof VectorTag) {
+    return new TxnBuilderTypes.TypeTagVector(typeTagToBCS(typeTag.elementType));
+  }
+  else if (typeTag instanceof StructTag) {
+    return new TxnBuilderTypes.TypeTagStruct(structTagToBCS(typeTag));
+  }
+  else if (typeTag instanceof TypeParamIdx) {
+    throw new Error(`Type parameter ${getTypeTagFullname(typeTag)} cannot be BCS-encoded, substitute it with a concrete type first`);
+  }
+  switch(typeTag) {
+    case AtomicTypeTag.Bool:
+      return new TxnBuilderTypes.TypeTagBool();
+    case AtomicTypeTag.U8:
+      return new TxnBuilderTypes.TypeTagU8();
+    case AtomicTypeTag.U16:
+      return new TypeTagVariant(TYPE_TAG_U16_VARIANT);
+    case AtomicTypeTag.U32:
+      return new TypeTagVariant(TYPE_TAG_U32_VARIANT);
+    case AtomicTypeTag.U64:
+      return new TxnBuilderTypes.TypeTagU64();
+    case AtomicTypeTag.U128:
+      return new TxnBuilderTypes.TypeTagU128();
+    case AtomicTypeTag.U256:
+      return new TypeTagVariant(TYPE_TAG_U256_VARIANT);
+    case AtomicTypeTag.Address:
+      return new TxnBuilderTypes.TypeTagAddress();
+    case AtomicTypeTag.Signer:
+      return new TxnBuilderTypes.TypeTagSigner();
+    default:
+      throw new Error(`Unsupported type for BCS: ${getTypeTagFullname(typeTag)}`);
+  }
+}
+
+export function bcsSerializeTypeTag(typeTag: TypeTag): Uint8Array {
+  return BCS.bcsToBytes(typeTagToBCS(typeTag));
+}
+
+/*
+Unsigned integers are encoded little-endian on a fixed number of bytes
+*/
+function serializeUnsigned(value: any, numBytes: number, serializer: BCS.Serializer) {
+  let remaining = bigInt.isInstance(value) ? value : bigInt(value.toString());
+  if (remaining.isNegative() || remaining.bitLength().toJSNumber() > numBytes * 8) {
+    throw new Error(`Value ${remaining.toString()} does not fit in u${numBytes * 8}`);
+  }
+  const bytes = new Uint8Array(numBytes);
+  for(let i = 0; i < numBytes; i++) {
+    bytes[i] = remaining.and(0xff).toJSNumber();
+    remaining = remaining.shiftRight(8);
+  }
+  serializer.serializeFixedBytes(bytes);
+}
+
+function toU8Array(value: any): Uint8Array {
+  if (value instanceof AptosVectorU8) {
+    return value.u8Array;
+  }
+  else if (value instanceof HexString) {
+    return value.toUint8Array();
+  }
+  return numbersOrStringToHexString(value).toUint8Array();
+}
+
+export function serializeMoveValueBCS(value: any, typeTag: TypeTag, serializer: BCS.Serializer) {
+  if (typeTag instanceof VectorTag) {
+    if (typeTag.elementType === AtomicTypeTag.U8) {
+      serializer.serializeBytes(toU8Array(value));
+      return;
+    }
+    if (!(value instanceof Array)) {
+      throw new Error(`Expected an Array for BCS type ${getTypeTagFullname(typeTag)} but received: ${typeof value}`);
+    }
+    serializer.serializeU32AsUleb128(value.length);
+    for(const element of value) {
+      serializeMoveValueBCS(element, typeTag.elementType, serializer);
+    }
+  }
+  else if (typeTag instanceof StructTag) {
+    if (typeTag.address.toShortString() === '0x1' && typeTag.module === 'ASCII' && typeTag.name === 'String') {
+      serializer.serializeStr(value as string);
+      return;
+    }
+    throw new Error(`Struct type cannot be BCS-encoded as a value: ${getTypeTagFullname(typeTag)}`);
+  }
+  else if (typeTag instanceof TypeParamIdx) {
+    throw new Error(`Type parameter ${getTypeTagFullname(typeTag)} needs to be substituted with a concrete type first`);
+  }
+  else if (typeTag === AtomicTypeTag.Bool) {
+    serializer.serializeBool(value as boolean);
+  }
+  else if (typeTag === AtomicTypeTag.U8) {
+    serializer.serializeU8(value as number);
+  }
+  else if (typeTag === AtomicTypeTag.U16) {
+    serializeUnsigned(value, 2, serializer);
+  }
+  else if (typeTag === AtomicTypeTag.U32) {
+    serializeUnsigned(value, 4, serializer);
+  }
+  else if (typeTag === AtomicTypeTag.U64) {
+    serializeUnsigned(value, 8, serializer);
+  }
+  else if (typeTag === AtomicTypeTag.U128) {
+    serializeUnsigned(value, 16, serializer);
+  }
+  else if (typeTag === AtomicTypeTag.U256) {
+    serializeUnsigned(value, 32, serializer);
+  }
+  else if (typeTag === AtomicTypeTag.Address) {
+    TxnBuilderTypes.AccountAddress.fromHex(value).serialize(serializer);
+  }
+  else {
+    throw new Error(`Unsupported type for BCS: ${getTypeTagFullname(typeTag)}`);
+  }
+}
+
+export function bcsSerializeMoveValue(value: any, typeTag: TypeTag): Uint8Array {
+  const serializer = new BCS.Serializer();
+  serializeMoveValueBCS(value, typeTag, serializer);
+  return serializer.getBytes();
+}
+
+/*
+Decodes a BCS-encoded Move value into the JSON form returned by the REST API (e.g. the values of write_table_item
+changes), so that it can be parsed with AptosParserRepo. Structs are decoded field by field, which requires their
+classes to be registered in the repo
+*/
+export function deserializeMoveValueBCS(typeTag: TypeTag, deserializer: BCS.Deserializer, repo: AptosParserRepo): any {
+  if (typeTag instanceof VectorTag) {
+    if (typeTag.elementType === AtomicTypeTag.U8) {
+      return HexString.fromUint8Array(deserializer.deserializeBytes()).hex();
+    }
+    const length = deserializer.deserializeUleb128AsU32();
+    const elements = [];
+    for(let i = 0; i < length; i++) {
+      elements.push(deserializeMoveValueBCS(typeTag.elementType, deserializer, repo));
+    }
+    return elements;
+  }
+  else if (typeTag instanceof StructTag) {
+    if (typeTag.address.toShortString() === '0x1' && typeTag.module === 'ASCII' && typeTag.name === 'String') {
+      return deserializer.deserializeStr();
+    }
+    const struct = repo.getStructInfo(getTypeTagParamlessName(typeTag));
+    if (!struct) {
+      throw new Error(`No struct registered for BCS type: ${getTypeTagFullname(typeTag)}`);
+    }
+    const data: Record<string, any> = {};
+    for(const field of struct.fields) {
+      data[field.name] = deserializeMoveValueBCS(substituteTypeParams(field.typeTag, typeTag.typeParams), deserializer, repo);
+    }
+    return data;
+  }
+  else if (typeTag instanceof TypeParamIdx) {
+    throw new Error(`Type parameter ${getTypeTagFullname(typeTag)} needs to be substituted with a concrete type first`);
+  }
+  else if (typeTag === AtomicTypeTag.Bool) {
+    return deserializer.deserializeBool();
+  }
+  else if (typeTag === AtomicTypeTag.U8) {
+    return deserializer.deserializeU8();
+  }
+  else if (typeTag === AtomicTypeTag.U16) {
+    return deserializer.deserializeU16();
+  }
+  else if (typeTag === AtomicTypeTag.U32) {
+    return deserializer.deserializeU32();
+  }
+  else if (typeTag === AtomicTypeTag.U64) {
+    return deserializer.deserializeU64().toString();
+  }
+  else if (typeTag === AtomicTypeTag.U128) {
+    return deserializer.deserializeU128().toString();
+  }
+  else if (typeTag === AtomicTypeTag.U256) {
+    // little-endian, like the other unsigned integers
+    const bigEndian = Array.from(deserializer.deserializeFixedBytes(32)).reverse();
+    return bigInt(HexString.fromUint8Array(new Uint8Array(bigEndian)).noPrefix(), 16).toString();
+  }
+  else if (typeTag === AtomicTypeTag.Address) {
+    const address = TxnBuilderTypes.AccountAddress.deserialize(deserializer);
+    return normalizeAddressString(HexString.fromUint8Array(address.address));
+  }
+  throw new Error(`Unsupported type for BCS: ${getTypeTagFullname(typeTag)}`);
+}
+
+export function bcsDeserializeMoveValue(bytes: Uint8Array, typeTag: TypeTag, repo: AptosParserRepo): any {
+  return deserializeMoveValueBCS(typeTag, new BCS.Deserializer(bytes), repo);
+}
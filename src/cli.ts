@@ -1,18 +1,23 @@
 #!/usr/bin/env node
 
-import { AptosTsgen } from "./aptosTsgen";
+import { AptosTsgen, AptosTsgenOptions } from "./aptosTsgen";
 
-const tsgen = (args: string[]) => {
-  const generator = new AptosTsgen([], args[0], args.slice(1));
+const tsgen = (args: string[], options: AptosTsgenOptions) => {
+  const generator = new AptosTsgen([], args[0], args.slice(1), options);
   generator.generate();
 }
 
 const main = () => {
-  const remainingArgs = process.argv.slice(2);
+  const flags = process.argv.slice(2).filter(arg => arg.startsWith('--'));
+  const remainingArgs = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
   if(remainingArgs.length < 2) {
-    console.log("Usage: aptos-tsgen OutputDirName JSON_INCLUDE_DIR1 JSON_INCLUDE_DIR2 ...");
+    console.log("Usage: aptos-tsgen [--bcs] OutputDirName JSON_INCLUDE_DIR1 JSON_INCLUDE_DIR2 ...");
+    console.log("  --bcs: also generate build_bcs_payload_* for each script function");
     process.exit();
   }
-  tsgen(remainingArgs);
+  const options: AptosTsgenOptions = {
+    bcsPayload: flags.includes('--bcs'),
+  };
+  tsgen(remainingArgs, options);
 }
 main();
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { AptosClient, HexString } from "aptos";
+import { AptosParserRepo } from "./parserRepo";
+import { getTypeTagFullname, parseTypeTagOrThrow, StructTag, TypeTag } from "./typeTag";
+
+export type SubscribedEvent<T = any> = {
+  key: string;
+  sequenceNumber: number;
+  typeTag: TypeTag;
+  // the parsed event data
+  data: T;
+}
+
+export type EventCallback<T = any> = (event: SubscribedEvent<T>) => void;
+
+export type EventSubscriptionOptions = {
+  // first sequence number to deliver, defaults to 0. Use lastSequenceNumber + 1 to resume an earlier subscription
+  fromSequenceNumber?: number;
+  // delay between polls, defaults to 2 seconds
+  pollIntervalMs?: number;
+  // number of events fetched per request, defaults to 25
+  pageSize?: number;
+  // called with the error of each failed poll, and of each callback that throws (the event still counts as delivered)
+  onError?: (e: any) => void;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_PAGE_SIZE = 25;
+
+/*
+Follows one event handle (the EventHandle field of a resource), and delivers each new event exactly once, in sequence
+number order.
+
+Events are delivered to callbacks registered with onEvent, and to async iterators:
+
+  for await (const event of subscription) { ... }
+
+Iterating starts polling if it is not running yet. stop() ends the loop.
+*/
+export class EventSubscription<T = any> implements AsyncIterable<SubscribedEvent<T>> {
+  // sequence number of the last delivered event, null if nothing has been delivered yet
+  public lastSequenceNumber: null | number;
+  private callbacks: EventCallback<T>[];
+  // resolves the pending next() of open iterators when polling stops
+  private iteratorClosers: Set<() => void>;
+  private pendingPoll: null | Promise<SubscribedEvent<T>[]>;
+  // each start/stop begins a new run, so that a poll in flight cannot revive a stopped loop
+  private pollRun: number;
+  private pollTimer: null | ReturnType<typeof setTimeout>;
+  constructor(
+    public client: AptosClient,
+    public repo: AptosParserRepo,
+    public address: HexString,
+    public containerTypeTag: StructTag,
+    public field: string,
+    public options: EventSubscriptionOptions = {},
+  ) {
+    this.lastSequenceNumber = null;
+    this.callbacks = [];
+    this.iteratorClosers = new Set();
+    this.pendingPoll = null;
+    this.pollRun = 0;
+    this.pollTimer = null;
+  }
+
+  /*
+  Registers a callback for new events. Returns a function that removes it
+  */
+  onEvent(callback: EventCallback<T>) {
+    this.callbacks.push(callback);
+    return () => {
+      this.callbacks = this.callbacks.filter(c => c !== callback);
+    };
+  }
+
+  /*
+  Fetches and delivers every event after the last delivered one. Concurrent calls share the same request
+  */
+  poll(): Promise<SubscribedEvent<T>[]> {
+    if (!this.pendingPoll) {
+      this.pendingPoll = this.fetchNewEvents().finally(() => {
+        this.pendingPoll = null;
+      });
+    }
+    return this.pendingPoll;
+  }
+
+  start() {
+    this.stopPolling();
+    this.schedulePoll(this.pollRun, 0);
+  }
+
+  /*
+  Stops polling, and ends the loops of open async iterators
+  */
+  stop() {
+    this.stopPolling();
+    for (const close of this.iteratorClosers) {
+      close();
+    }
+  }
+
+  isPolling() {
+    return this.pollTimer !== null;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<SubscribedEvent<T>> {
+    const queue: SubscribedEvent<T>[] = [];
+    let waiting: null | ((result: IteratorResult<SubscribedEvent<T>>) => void) = null;
+    let closed = false;
+    const unsubscribe = this.onEvent(event => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ done: false, value: event });
+      }
+      else {
+        queue.push(event);
+      }
+    });
+    const close = () => {
+      closed = true;
+      unsubscribe();
+      this.iteratorClosers.delete(close);
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ done: true, value: undefined });
+      }
+    };
+    this.iteratorClosers.add(close);
+    const startedPolling = !this.isPolling();
+    if (startedPolling) {
+      this.start();
+    }
+    return {
+      next: () => {
+        const event = queue.shift();
+        if (event) {
+          return Promise.resolve({ done: false, value: event });
+        }
+        if (closed) {
+          return Promise.resolve({ done: true, value: undefined });
+        }
+        return new Promise(resolve => {
+          waiting = resolve;
+        });
+      },
+      return: async () => {
+        close();
+        if (startedPolling) {
+          this.stop();
+        }
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  getNextSequenceNumber() {
+    if (this.lastSequenceNumber === null) {
+      return this.options.fromSequenceNumber ?? 0;
+    }
+    return this.lastSequenceNumber + 1;
+  }
+
+  private async fetchNewEvents() {
+    const pageSize = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const handleStruct = getTypeTagFullname(this.containerTypeTag);
+    const delivered: SubscribedEvent<T>[] = [];
+    while (true) {
+      const start = this.getNextSequenceNumber();
+      const events = await this.client.getEventsByEventHandle(this.address, handleStruct, this.field, { start, limit: pageSize });
+      const sorted = events
+        .map(event => ({ event, sequenceNumber: parseInt(event.sequence_number) }))
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+      for (const { event, sequenceNumber } of sorted) {
+        // pages may overlap with what has been delivered already
+        if (sequenceNumber < this.getNextSequenceNumber()) {
+          continue;
+        }
+        const typeTag = parseTypeTagOrThrow(event.type);
+        const subscribed: SubscribedEvent<T> = {
+          key: event.key,
+          sequenceNumber,
+          typeTag,
+          data: this.repo.parse(event.data, typeTag),
+        };
+        this.lastSequenceNumber = sequenceNumber;
+        delivered.push(subscribed);
+        for (const callback of this.callbacks) {
+          try {
+            callback(subscribed);
+          }
+          catch(e) {
+            // a failing callback must not cost the other callbacks, or the events after it, their delivery
+            if (this.options.onError) {
+              this.options.onError(e);
+            }
+          }
+        }
+      }
+      // a short page is the end of the stream, a page without anything new means the node ignored start
+      if (events.length < pageSize || this.getNextSequenceNumber() === start) {
+        break;
+      }
+    }
+    return delivered;
+  }
+
+  private stopPolling() {
+    this.pollRun += 1;
+    if (this.pollTimer !== null) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private schedulePoll(run: number, delayMs: number) {
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll();
+      }
+      catch(e) {
+        if (run === this.pollRun && this.options.onError) {
+          this.options.onError(e);
+        }
+      }
+      if (run === this.pollRun) {
+        this.schedulePoll(run, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+      }
+    }, delayMs);
+  }
+}
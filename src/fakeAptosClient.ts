@@ -0,0 +1,475 @@
+import { AptosClient, HexString, MaybeHexString, RequestError, Types } from "aptos";
+import { DeleteResource, DeleteTableItem, WriteResource, WriteTableItem } from "aptos/dist/api/data-contracts";
+import { bcsDeserializeMoveValue, bcsSerializeMoveValue } from "./bcs";
+import { AptosParserRepo, normalizeTableHandle } from "./parserRepo";
+import { getTypeTagFullname, normalizeAddressString, parseTypeTagOrThrow } from "./typeTag";
+
+/*
+An event emitted by a scripted transaction. Key and sequence number are assigned by the fake chain
+*/
+export type FakeEmittedEvent = {
+  address: MaybeHexString;
+  // the struct holding the EventHandle, and the name of the EventHandle field
+  eventHandleStruct: string;
+  fieldName: string;
+  // type of the event data
+  type: string;
+  data: any;
+}
+
+/*
+What happens to a submitted transaction. Unscripted transactions succeed without changing anything
+*/
+export type FakeTransactionOutcome = {
+  // defaults to true
+  success?: boolean;
+  // defaults to "Executed successfully" for successful transactions
+  vmStatus?: string;
+  gasUsed?: number;
+  // resource and table item changes are applied to the fake chain when the transaction succeeds
+  changes?: Types.WriteSetChange[];
+  events?: FakeEmittedEvent[];
+  // number of transactionPending() calls that return true before the transaction gets committed. Until then, reads do
+  // not see its changes
+  pendingPolls?: number;
+}
+
+export type FakeTransactionScript = FakeTransactionOutcome | ((request: Types.SubmitTransactionRequest) => FakeTransactionOutcome);
+
+type FakeEventStream = {
+  key: string;
+  events: Types.Event[];
+}
+
+// the real AptosClient gives up waiting after 10 polls
+const MAX_WAIT_POLLS = 10;
+
+function normalizeType(type: string) {
+  return getTypeTagFullname(parseTypeTagOrThrow(type));
+}
+
+/*
+Normalizes the address of "address::module::function", so that scripts match whatever address form the sender used
+*/
+function normalizeFunctionId(funcname: string) {
+  const separatorIdx = funcname.indexOf("::");
+  if (separatorIdx < 0) {
+    return funcname;
+  }
+  return normalizeAddressString(funcname.slice(0, separatorIdx)) + funcname.slice(separatorIdx);
+}
+
+function notFound(message: string): RequestError {
+  const response: any = { status: 404, statusText: "Not Found", data: { code: 404, message } };
+  return new RequestError(message, response);
+}
+
+function badRequest(message: string, code: string, request: Types.SubmitTransactionRequest): RequestError {
+  const response: any = { status: 400, statusText: "Bad Request", data: { code: 400, message: code } };
+  return new RequestError(message, response, JSON.stringify(request));
+}
+
+/*
+In-memory stand-in for AptosClient, for testing generated code and AptosResourceCache without a node.
+
+Implements the subset of AptosClient used by this package. Tests seed resources and events with setResource/addEvent,
+and decide what submitted transactions do with scriptTransaction. Simulations (transactions.simulateTransaction) get
+the outcome of the next scripted transaction without consuming it, and commit nothing. No history is kept: reads
+ignore query.version and return the latest state.
+
+Like a node, each sender's transactions are committed in sequence number order: submissions with an already used
+sequence number are rejected, and transactions after a gap stay pending until the gap is filled or they expire.
+*/
+export class FakeAptosClient extends AptosClient {
+  // maps address to resource type to resource data
+  public accountResources: Record<string, Record<string, any>>;
+  // maps table handle to the JSON of a key to the item's data
+  public tableItems: Record<string, Record<string, any>>;
+  // maps table handle to hex BCS key to hex BCS value (null once deleted), as written by transactions. These take
+  // precedence over tableItems
+  public tableItemsBCS: Record<string, Record<string, null | string>>;
+  public accountSequenceNumbers: Record<string, number>;
+  // maps "address/eventHandleStruct/fieldName" to the events emitted so far
+  public eventStreams: Record<string, FakeEventStream>;
+  // maps function name (with a normalized address) to the outcomes of its upcoming transactions, consumed in order
+  public transactionScripts: Record<string, FakeTransactionScript[]>;
+  public submittedTransactions: Types.SubmitTransactionRequest[];
+  // maps hash to committed transaction
+  public committedTransactions: Record<string, Types.UserTransaction>;
+  // maps hash to the remaining pending polls, for transactions that are not committed yet
+  public pendingTransactions: Record<string, number>;
+  private pendingRequests: Record<string, Types.SubmitTransactionRequest>;
+  // outcomes of pending transactions, applied when they are committed
+  private pendingOutcomes: Record<string, FakeTransactionOutcome>;
+  public ledgerVersion: number;
+  private nextEventCreationNumber: number;
+  constructor(
+    public chainId = 4,
+    // decodes table items written by transactions, for struct values the struct classes need to be registered
+    public repo: null | AptosParserRepo = null,
+  ) {
+    super("http://fake-aptos-node");
+    this.accountResources = {};
+    this.tableItems = {};
+    this.tableItemsBCS = {};
+    this.accountSequenceNumbers = {};
+    this.eventStreams = {};
+    this.transactionScripts = {};
+    this.submittedTransactions = [];
+    this.committedTransactions = {};
+    this.pendingTransactions = {};
+    this.pendingRequests = {};
+    this.pendingOutcomes = {};
+    this.ledgerVersion = 0;
+    this.nextEventCreationNumber = 0;
+    // simulate/simulateMultiAgent go through the generated REST client rather than an AptosClient method
+    this.transactions.simulateTransaction = async (request: Types.SubmitTransactionRequest) => {
+      const response: any = { status: 200, statusText: "OK", data: [this.getSimulatedTransaction(request)] };
+      return response;
+    };
+  }
+
+  /*
+  Seeding
+  */
+
+  setResource(address: MaybeHexString, type: string, data: any) {
+    const owner = normalizeAddressString(address);
+    if (!(owner in this.accountResources)) {
+      this.accountResources[owner] = {};
+    }
+    this.accountResources[owner][normalizeType(type)] = data;
+  }
+
+  removeResource(address: MaybeHexString, type: string) {
+    const resources = this.accountResources[normalizeAddressString(address)];
+    if (resources) {
+      delete resources[normalizeType(type)];
+    }
+  }
+
+  /*
+  key and data are in the JSON form of the table's key and value types
+  */
+  setTableItem(handle: string, key: any, data: any) {
+    const table = normalizeTableHandle(handle);
+    if (!(table in this.tableItems)) {
+      this.tableItems[table] = {};
+    }
+    this.tableItems[table][JSON.stringify(key)] = data;
+  }
+
+  addEvent(address: MaybeHexString, eventHandleStruct: string, fieldName: string, type: string, data: any): Types.Event {
+    const stream = this.getEventStream(address, eventHandleStruct, fieldName);
+    const event: Types.Event = {
+      key: stream.key,
+      sequence_number: stream.events.length.toString(),
+      type: normalizeType(type),
+      data,
+    };
+    stream.events.push(event);
+    return event;
+  }
+
+  /*
+  Queue the outcome of the next transaction that calls funcname (e.g. "0x1::Coin::transfer")
+  */
+  scriptTransaction(funcname: string, script: FakeTransactionScript) {
+    const functionId = normalizeFunctionId(funcname);
+    if (!(functionId in this.transactionScripts)) {
+      this.transactionScripts[functionId] = [];
+    }
+    this.transactionScripts[functionId].push(script);
+  }
+
+  /*
+  AptosClient methods
+  */
+
+  async getAccount(accountAddress: MaybeHexString): Promise<Types.Account> {
+    // only committed transactions have consumed their sequence number
+    const sequenceNumber = this.accountSequenceNumbers[normalizeAddressString(accountAddress)] || 0;
+    return {
+      sequence_number: sequenceNumber.toString(),
+      authentication_key: HexString.fromUint8Array(new Uint8Array(32)).hex(),
+    };
+  }
+
+  async getAccountResources(accountAddress: MaybeHexString): Promise<Types.AccountResource[]> {
+    const resources = this.accountResources[normalizeAddressString(accountAddress)] || {};
+    return Object.keys(resources).map(type => ({ type, data: resources[type] }));
+  }
+
+  async getAccountResource(accountAddress: MaybeHexString, resourceType: string): Promise<Types.AccountResource> {
+    const address = normalizeAddressString(accountAddress);
+    const type = normalizeType(resourceType);
+    const resources = this.accountResources[address];
+    if (!resources || !(type in resources)) {
+      throw notFound(`Resource not found: ${address}/${type}`);
+    }
+    return { type, data: resources[type] };
+  }
+
+  async getEventsByEventHandle(
+    address: MaybeHexString,
+    eventHandleStruct: Types.MoveStructTagId,
+    fieldName: string,
+    query?: { start?: number; limit?: number },
+  ): Promise<Types.Event[]> {
+    const stream = this.eventStreams[this.getEventStreamId(address, eventHandleStruct, fieldName)];
+    if (!stream) {
+      throw notFound(`Event handle not found: ${normalizeAddressString(address)}/${eventHandleStruct}/${fieldName}`);
+    }
+    const start = query?.start ?? 0;
+    const limit = query?.limit ?? 25;
+    return stream.events.slice(start, start + limit);
+  }
+
+  async getTableItem(handle: string, data: Types.TableItemRequest): Promise<any> {
+    const table = normalizeTableHandle(handle);
+    const itemsBCS = this.tableItemsBCS[table];
+    if (itemsBCS) {
+      const keyHex = HexString.fromUint8Array(bcsSerializeMoveValue(data.key, parseTypeTagOrThrow(data.key_type))).hex();
+      if (keyHex in itemsBCS) {
+        const valueHex = itemsBCS[keyHex];
+        if (valueHex === null) {
+          throw notFound(`Table item not found: ${handle}/${JSON.stringify(data.key)}`);
+        }
+        return bcsDeserializeMoveValue(new HexString(valueHex).toUint8Array(), parseTypeTagOrThrow(data.value_type), this.getRepo());
+      }
+    }
+    const items = this.tableItems[table];
+    const itemKey = JSON.stringify(data.key);
+    if (!items || !(itemKey in items)) {
+      throw notFound(`Table item not found: ${handle}/${itemKey}`);
+    }
+    return items[itemKey];
+  }
+
+  async createSigningMessage(txnRequest: Types.UserCreateSigningMessageRequest): Promise<Types.HexEncodedBytes> {
+    // any deterministic bytes will do, nothing verifies the signatures
+    return HexString.fromUint8Array(new Uint8Array(Buffer.from(JSON.stringify(txnRequest)))).hex();
+  }
+
+  async submitTransaction(signedTxnRequest: Types.SubmitTransactionRequest): Promise<Types.PendingTransaction> {
+    this.commitReadyTransactions();
+    const sender = normalizeAddressString(signedTxnRequest.sender);
+    const sequenceNumber = parseInt(signedTxnRequest.sequence_number);
+    const expected = this.accountSequenceNumbers[sender] || 0;
+    if (sequenceNumber < expected) {
+      throw badRequest(`Expected sequence number ${expected} for ${sender}`, "SEQUENCE_NUMBER_TOO_OLD", signedTxnRequest);
+    }
+    const queued = Object.values(this.pendingRequests).some(request =>
+      normalizeAddressString(request.sender) === sender && parseInt(request.sequence_number) === sequenceNumber);
+    if (queued) {
+      throw badRequest(`Sequence number ${sequenceNumber} of ${sender} is already pending`, "SEQUENCE_NUMBER_ALREADY_PENDING", signedTxnRequest);
+    }
+    this.submittedTransactions.push(signedTxnRequest);
+    const hash = HexString.fromUint8Array(new Uint8Array(32)).hex().slice(0, -8) +
+      this.submittedTransactions.length.toString(16).padStart(8, "0");
+    const outcome = this.getTransactionOutcome(signedTxnRequest, true);
+    this.pendingTransactions[hash] = outcome.pendingPolls || 0;
+    this.pendingRequests[hash] = signedTxnRequest;
+    this.pendingOutcomes[hash] = outcome;
+    this.commitReadyTransactions();
+    return { type: "pending_transaction", hash, ...signedTxnRequest };
+  }
+
+  async transactionPending(txnHash: Types.HexEncodedBytes): Promise<boolean> {
+    if (this.pendingTransactions[txnHash] > 0) {
+      this.pendingTransactions[txnHash] -= 1;
+      return true;
+    }
+    this.commitReadyTransactions();
+    // like a node, unknown (e.g. expired) transactions are reported as pending
+    return !(txnHash in this.committedTransactions);
+  }
+
+  async waitForTransaction(txnHash: Types.HexEncodedBytes): Promise<void> {
+    // same as AptosClient.waitForTransaction, without sleeping between polls
+    let count = 0;
+    while (await this.transactionPending(txnHash)) {
+      count += 1;
+      if (count >= MAX_WAIT_POLLS) {
+        throw new Error(`Waiting for transaction ${txnHash} timed out!`);
+      }
+    }
+  }
+
+  async getTransaction(txnHashOrVersion: string): Promise<Types.Transaction> {
+    const txn = this.committedTransactions[txnHashOrVersion];
+    if (txn) {
+      return txn;
+    }
+    if (txnHashOrVersion in this.pendingRequests) {
+      return { type: "pending_transaction", hash: txnHashOrVersion, ...this.pendingRequests[txnHashOrVersion] };
+    }
+    throw notFound(`Transaction not found: ${txnHashOrVersion}`);
+  }
+
+  async getLedgerInfo(): Promise<Types.LedgerInfo> {
+    return {
+      chain_id: this.chainId,
+      ledger_version: this.ledgerVersion.toString(),
+      ledger_timestamp: (Date.now() * 1000).toString(),
+    };
+  }
+
+  async getChainId(): Promise<number> {
+    return this.chainId;
+  }
+
+  /*
+  Internals
+  */
+
+  private getRepo(): AptosParserRepo {
+    if (!this.repo) {
+      this.repo = new AptosParserRepo();
+      this.repo.addDefaultParsers();
+      this.repo.addDefaultSerializers();
+    }
+    return this.repo;
+  }
+
+  private setTableItemBCS(handle: string, key: string, value: null | string) {
+    const table = normalizeTableHandle(handle);
+    if (!(table in this.tableItemsBCS)) {
+      this.tableItemsBCS[table] = {};
+    }
+    this.tableItemsBCS[table][new HexString(key).hex()] = value;
+  }
+
+  private getEventStreamId(address: MaybeHexString, eventHandleStruct: string, fieldName: string) {
+    return `${normalizeAddressString(address)}/${normalizeType(eventHandleStruct)}/${fieldName}`;
+  }
+
+  private getEventStream(address: MaybeHexString, eventHandleStruct: string, fieldName: string) {
+    const streamId = this.getEventStreamId(address, eventHandleStruct, fieldName);
+    if (!(streamId in this.eventStreams)) {
+      this.eventStreams[streamId] = { key: this.getEventKey(address, this.nextEventCreationNumber++), events: [] };
+    }
+    return this.eventStreams[streamId];
+  }
+
+  private getEventKey(address: MaybeHexString, creationNumber: number) {
+    // event key: u64 creation number followed by the full 32-byte address
+    const paddedAddress = HexString.ensure(address).noPrefix().padStart(64, "0");
+    return `0x${creationNumber.toString(16).padStart(16, "0")}${paddedAddress}`;
+  }
+
+  private getTransactionOutcome(request: Types.SubmitTransactionRequest, consume: boolean): FakeTransactionOutcome {
+    const payload = request.payload as Types.ScriptFunctionPayload;
+    const scripts = this.transactionScripts[normalizeFunctionId(payload.function)];
+    const script = scripts ? (consume ? scripts.shift() : scripts[0]) : undefined;
+    if (!script) {
+      return {};
+    }
+    return typeof script === "function" ? script(request) : script;
+  }
+
+  /*
+  Commits the pending transactions that are done polling and next in their sender's sequence. Pending transactions
+  that expired, or whose sequence number got used, are dropped
+  */
+  private commitReadyTransactions() {
+    const now = Math.floor(Date.now() / 1000);
+    let committed = true;
+    while (committed) {
+      committed = false;
+      for (const hash of Object.keys(this.pendingRequests)) {
+        const request = this.pendingRequests[hash];
+        const sequenceNumber = parseInt(request.sequence_number);
+        const expected = this.accountSequenceNumbers[normalizeAddressString(request.sender)] || 0;
+        if (sequenceNumber < expected || parseInt(request.expiration_timestamp_secs) < now) {
+          this.removePendingTransaction(hash);
+        }
+        else if (sequenceNumber === expected && this.pendingTransactions[hash] === 0) {
+          this.commitTransaction(hash, request, this.pendingOutcomes[hash]);
+          this.removePendingTransaction(hash);
+          committed = true;
+        }
+      }
+    }
+  }
+
+  private removePendingTransaction(hash: string) {
+    delete this.pendingTransactions[hash];
+    delete this.pendingRequests[hash];
+    delete this.pendingOutcomes[hash];
+  }
+
+  private commitTransaction(hash: string, request: Types.SubmitTransactionRequest, outcome: FakeTransactionOutcome) {
+    const success = outcome.success ?? true;
+    const changes = success ? (outcome.changes || []) : [];
+    const events = success ? (outcome.events || []).map(e => this.addEvent(e.address, e.eventHandleStruct, e.fieldName, e.type, e.data)) : [];
+    for (const change of changes) {
+      if (change.type === "write_resource") {
+        const write = change as WriteResource;
+        this.setResource(write.address, write.data.type, write.data.data);
+      }
+      else if (change.type === "delete_resource") {
+        const del = change as DeleteResource;
+        this.removeResource(del.address, del.resource);
+      }
+      else if (change.type === "write_table_item") {
+        const write = change as WriteTableItem;
+        this.setTableItemBCS(write.handle, write.key, write.value);
+      }
+      else if (change.type === "delete_table_item") {
+        const del = change as DeleteTableItem;
+        this.setTableItemBCS(del.data.handle, del.data.key, null);
+      }
+    }
+    // failed transactions still consume the sequence number
+    const sender = normalizeAddressString(request.sender);
+    this.accountSequenceNumbers[sender] = parseInt(request.sequence_number) + 1;
+    this.ledgerVersion += 1;
+    this.committedTransactions[hash] = this.makeUserTransaction(hash, this.ledgerVersion, request, outcome, changes, events);
+  }
+
+  private getSimulatedTransaction(request: Types.SubmitTransactionRequest): Types.UserTransaction {
+    const outcome = this.getTransactionOutcome(request, false);
+    const success = outcome.success ?? true;
+    const changes = success ? (outcome.changes || []) : [];
+    // the events the transaction would emit, without adding them to their streams
+    const events: Types.Event[] = success ? (outcome.events || []).map(e => {
+      const stream = this.eventStreams[this.getEventStreamId(e.address, e.eventHandleStruct, e.fieldName)];
+      return {
+        key: stream ? stream.key : this.getEventKey(e.address, this.nextEventCreationNumber),
+        sequence_number: (stream ? stream.events.length : 0).toString(),
+        type: normalizeType(e.type),
+        data: e.data,
+      };
+    }) : [];
+    const emptyHash = HexString.fromUint8Array(new Uint8Array(32)).hex();
+    return this.makeUserTransaction(emptyHash, this.ledgerVersion + 1, request, outcome, changes, events);
+  }
+
+  private makeUserTransaction(
+    hash: string,
+    version: number,
+    request: Types.SubmitTransactionRequest,
+    outcome: FakeTransactionOutcome,
+    changes: Types.WriteSetChange[],
+    events: Types.Event[],
+  ): Types.UserTransaction {
+    const success = outcome.success ?? true;
+    const emptyHash = HexString.fromUint8Array(new Uint8Array(32)).hex();
+    return {
+      type: "user_transaction",
+      events,
+      timestamp: (Date.now() * 1000).toString(),
+      ...request,
+      version: version.toString(),
+      hash,
+      state_root_hash: emptyHash,
+      event_root_hash: emptyHash,
+      gas_used: (outcome.gasUsed || 0).toString(),
+      success,
+      vm_status: outcome.vmStatus || (success ? "Executed successfully" : "Move abort"),
+      accumulator_root_hash: emptyHash,
+      changes,
+    };
+  }
+}
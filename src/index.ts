@@ -1,5 +1,10 @@
 export * from "./aptosResourceCache";
+export * from "./bcs";
+export * from "./eventSubscription";
+export * from "./fakeAptosClient";
 export * from "./jsonTypes";
+export * from "./moveAbort";
 export * from "./parserRepo";
 export * from "./txSender";
-export * from "./typeTag";
\ No newline at end of file
+export * from "./typeTag";
+export * from "./typeTagPattern";
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { HexString, Types } from "aptos";
+import bigInt from "big-integer";
+import { AptosParserRepo } from "./parserRepo";
+
+/*
+Maps an abort code (in decimal string form) to the name of the module constant that defines it
+*/
+export type ErrorCodeTable = Record<string, string>;
+
+/*
+Finds the constant name for an abort code in a module's errorCodes. Aptos framework modules abort with canonical error
+codes (category << 16 | reason), where only the lower 16 bits match the module constant.
+*/
+export function getErrorConstantName(errorCodes: null | ErrorCodeTable, code: bigInt.BigInteger): null | string {
+  if (!errorCodes) {
+    return null;
+  }
+  const fullMatch = errorCodes[code.toString()];
+  if (fullMatch) {
+    return fullMatch;
+  }
+  const reasonMatch = errorCodes[code.and(0xffff).toString()];
+  if (reasonMatch) {
+    return reasonMatch;
+  }
+  return null;
+}
+
+export class TransactionFailedError extends Error {
+  constructor(
+    message: string,
+    public vmStatus: string,
+    public txn: Types.UserTransaction,
+  ) {
+    super(message);
+    this.name = "TransactionFailedError";
+  }
+}
+
+export class MoveAbortError extends TransactionFailedError {
+  constructor(
+    public moduleAddress: HexString,
+    public moduleName: string,
+    // u64, so it may not fit in a number
+    public code: bigInt.BigInteger,
+    // null if the aborting module did not register a matching constant
+    public constantName: null | string,
+    vmStatus: string,
+    txn: Types.UserTransaction,
+  ) {
+    super(
+      `Move abort in ${moduleAddress.toShortString()}::${moduleName}: ${constantName ?? "unknown error"}(${code})`,
+      vmStatus,
+      txn,
+    );
+    this.name = "MoveAbortError";
+  }
+}
+
+const ABORT_LOCATION_REGEX = /(0x[0-9a-fA-F]+)::([A-Za-z_][A-Za-z0-9_]*)/;
+const ABORT_CODE_REGEXES = [
+  // Move abort in 0x1::Coin: EINSUFFICIENT_BALANCE(0x10006): ...
+  /\((0x[0-9a-fA-F]+)\)/,
+  // Move abort: code 65542 at 0x1::Coin
+  /code:?\s*(0x[0-9a-fA-F]+|\d+)/i,
+  // Move abort in 0x1::Coin: 0x10006
+  /:\s*(0x[0-9a-fA-F]+|\d+)\s*$/,
+];
+
+function parseAbortCode(code: string): bigInt.BigInteger {
+  return code.startsWith("0x") ? bigInt(code.slice(2), 16) : bigInt(code);
+}
+
+/*
+Extracts the location and code out of a "Move abort" vm_status. Returns null for any other status
+*/
+export function parseMoveAbort(vmStatus: string): null | { moduleAddress: HexString, moduleName: string, code: bigInt.BigInteger } {
+  if (!vmStatus.startsWith("Move abort")) {
+    return null;
+  }
+  const location = vmStatus.match(ABORT_LOCATION_REGEX);
+  if (!location) {
+    return null;
+  }
+  for(const regex of ABORT_CODE_REGEXES) {
+    const codeMatch = vmStatus.match(regex);
+    if (codeMatch) {
+      return {
+        moduleAddress: new HexString(location[1]),
+        moduleName: location[2],
+        code: parseAbortCode(codeMatch[1]),
+      };
+    }
+  }
+  return null;
+}
+
+/*
+Converts a failed transaction into a MoveAbortError if it aborted, or a TransactionFailedError otherwise. Constant
+names are looked up in the error codes registered in repo (generated modules register theirs in loadParsers)
+*/
+export function getTransactionError(txn: Types.UserTransaction, repo: null | AptosParserRepo = null): TransactionFailedError {
+  const abort = parseMoveAbort(txn.vm_status);
+  if (abort) {
+    const errorCodes = repo ? repo.getErrorCodes(abort.moduleAddress, abort.moduleName) : null;
+    const constantName = getErrorConstantName(errorCodes, abort.code);
+    return new MoveAbortError(abort.moduleAddress, abort.moduleName, abort.code, constantName, txn.vm_status, txn);
+  }
+  return new TransactionFailedError(`Transaction ${txn.hash} failed: ${txn.vm_status}`, txn.vm_status, txn);
+}
@@ -1,10 +1,14 @@
-import { AtomicTypeTag, getTypeTagParamlessName, StructTag, TypeTag, TypeParamIdx, VectorTag, getTypeTagFullname, parseTypeTagOrThrow, substituteTypeParams } from "./typeTag";
+import { addressEquals, AtomicTypeTag, getTypeTagParamlessName, StructTag, TypeTag, TypeParamIdx, VectorTag, getTypeTagFullname, parseTypeTagOrThrow, substituteTypeParams, normalizeAddressString, ReferenceTag } from "./typeTag";
 import { AptosClient, HexString } from "aptos";
 import bigInt from "big-integer";
+import { JsonAbilityType } from "./jsonTypes";
+import { ErrorCodeTable } from "./moveAbort";
 
 export type TypeParamDeclType = {
   name: string;
   isPhantom: boolean;
+  // abilities the type argument must have, e.g. ["store"] for `T: store`
+  constraints?: JsonAbilityType[];
 }
 export type FieldDeclType = {
   name: string;
@@ -16,15 +20,126 @@ export interface StructInfoType {
   structName: string;
   typeParameters: TypeParamDeclType[];
   fields: FieldDeclType[];
+  // declared abilities, unknown for structs generated before they were emitted
+  abilities?: JsonAbilityType[];
   new(proto: any, typeTag: TypeTag): any;
   load?(repo: AptosParserRepo, client: AptosClient, address: HexString, typeParams: TypeTag[]): Promise<any>;
 }
 
+/*
+Normalizes the address of a paramless struct name, so that registrations and lookups agree on keys
+*/
+function normalizeParamlessName(paramlessName: string): string {
+  const separatorIdx = paramlessName.indexOf('::');
+  if (separatorIdx < 0) {
+    return paramlessName;
+  }
+  return normalizeAddressString(paramlessName.slice(0, separatorIdx)) + paramlessName.slice(separatorIdx);
+}
+
+export function getStructInfoParamlessName(struct: StructInfoType): string {
+  return getTypeTagParamlessName(new StructTag(struct.moduleAddress, struct.moduleName, struct.structName, []));
+}
+
+const PRIMITIVE_ABILITIES: JsonAbilityType[] = ["copy", "drop", "store"];
+
+/*
+Abilities of a concrete type, following Move's rules: a struct instantiation has the declared abilities that all its
+non-phantom type arguments allow (copy, drop and store need the same ability, key needs store), and a vector has the
+abilities of its elements.
+
+Structs are looked up among the struct classes registered in repo. Returns null if some struct is unknown or was
+registered without abilities, or if typeTag is not concrete
+*/
+export function getTypeTagAbilities(typeTag: TypeTag, repo: null | AptosParserRepo): null | JsonAbilityType[] {
+  if (typeTag instanceof VectorTag) {
+    const elementAbilities = getTypeTagAbilities(typeTag.elementType, repo);
+    return elementAbilities === null ? null : PRIMITIVE_ABILITIES.filter(a => elementAbilities.includes(a));
+  }
+  else if (typeTag instanceof StructTag) {
+    const struct = repo?.getStructInfo(typeTag.getParamlessName());
+    if (!struct || !struct.abilities || struct.typeParameters.length !== typeTag.typeParams.length) {
+      return null;
+    }
+    let abilities = struct.abilities;
+    for (let i = 0; i < typeTag.typeParams.length; i++) {
+      if (struct.typeParameters[i].isPhantom) {
+        continue;
+      }
+      const argAbilities = getTypeTagAbilities(typeTag.typeParams[i], repo);
+      if (argAbilities === null) {
+        return null;
+      }
+      abilities = abilities.filter(a => argAbilities.includes(a === "key" ? "store" : a));
+    }
+    return abilities;
+  }
+  else if (typeTag instanceof TypeParamIdx) {
+    return null;
+  }
+  else if (typeTag instanceof ReferenceTag) {
+    return ["copy", "drop"];
+  }
+  else if (typeTag === AtomicTypeTag.Signer) {
+    return ["drop"];
+  }
+  else {
+    return PRIMITIVE_ABILITIES;
+  }
+}
+
+/*
+Thrown when type arguments do not fit the type parameters of a struct or function, before anything is sent to a node
+*/
+export class TypeArgumentError extends Error {
+  constructor(
+    message: string,
+    // the struct or function, e.g. 0x1::Coin::transfer
+    public target: string,
+    // the type argument that lacks abilities, null if the number of type arguments is wrong
+    public typeArg: null | TypeTag,
+    public missingAbilities: JsonAbilityType[],
+  ) {
+    super(message);
+    this.name = "TypeArgumentError";
+  }
+}
+
+/*
+Checks that typeArgs are as many as typeParameters, and that each has the abilities its type parameter is constrained
+to. Type arguments whose abilities are unknown (see getTypeTagAbilities) are not checked. Throws TypeArgumentError
+*/
+export function checkTypeArguments(target: string, typeParameters: TypeParamDeclType[], typeArgs: TypeTag[], repo: null | AptosParserRepo) {
+  if (typeParameters.length !== typeArgs.length) {
+    throw new TypeArgumentError(`${target} expects ${typeParameters.length} type arguments but received ${typeArgs.length}`, target, null, []);
+  }
+  typeParameters.forEach((typeParam, i) => {
+    const constraints = typeParam.constraints ?? [];
+    if (constraints.length === 0) {
+      return;
+    }
+    const abilities = getTypeTagAbilities(typeArgs[i], repo);
+    if (abilities === null) {
+      return;
+    }
+    const missing = constraints.filter(c => !abilities.includes(c));
+    if (missing.length > 0) {
+      const typeArgName = getTypeTagFullname(typeArgs[i]);
+      throw new TypeArgumentError(
+        `${typeArgName} cannot be used for ${typeParam.name} of ${target}: it lacks ${missing.join(', ')} (needs ${constraints.join(' + ')})`,
+        target,
+        typeArgs[i],
+        missing,
+      );
+    }
+  });
+}
+
 export function parseStructProto(data: any, typeTag: TypeTag, repo: AptosParserRepo, struct: StructInfoType): any {
   if(!(typeTag instanceof StructTag)) {
     throw new Error(`${struct.structName} expects a StructTag as typeTag but received: ${typeTag}`);
   }
-  if(typeTag.address.hex() !== struct.moduleAddress.hex()) {
+  if(!addressEquals(typeTag.address, struct.moduleAddress)) {
     throw new Error(`${struct.structName} expects a moduleAddress of ${struct.moduleAddress} but received: ${typeTag.address}.`);
   }
   if(typeTag.module !== struct.moduleName) {
@@ -66,8 +181,119 @@ export function parseStructProto(data: any, typeTag: TypeTag, repo: AptosParserR
   return proto;
 }
 
+export type EventIterationOptions = {
+  // first sequence number to return. Defaults to 0 going forward, and to the latest event going backward
+  start?: number;
+  // defaults to forward
+  direction?: 'forward' | 'backward';
+  // stop after this many events
+  maxCount?: number;
+  // events fetched per request, defaults to 25
+  pageSize?: number;
+}
+
+const DEFAULT_EVENT_PAGE_SIZE = 25;
+
+/*
+Whether typeTag is a handle-based table (0x1::Table::Table<K, V>), whose items are read with AptosClient.getTableItem
+*/
+export function isTableTypeTag(typeTag: TypeTag): typeTag is StructTag {
+  return typeTag instanceof StructTag &&
+    typeTag.address.toShortString() === '0x1' &&
+    (typeTag.module === 'Table' || typeTag.module === 'table') &&
+    typeTag.name === 'Table' &&
+    typeTag.typeParams.length === 2;
+}
+
+/*
+The handle of a parsed table, in the form expected by AptosClient.getTableItem
+*/
+export function getTableHandle(table: any): string {
+  const handle = table.handle;
+  if (bigInt.isInstance(handle)) {
+    return handle.toString();
+  }
+  else if (handle instanceof HexString) {
+    return handle.hex();
+  }
+  else if (typeof handle === 'string') {
+    return handle;
+  }
+  throw new Error(`Expected a table with a handle field but received: ${JSON.stringify(table)}`);
+}
+
+/*
+Table handles are u128 numbers, rendered in decimal by some endpoints and in hex by others. Returns the short hex form
+*/
+export function normalizeTableHandle(handle: string): string {
+  if (handle.startsWith('0x')) {
+    return new HexString(handle).toShortString();
+  }
+  return `0x${bigInt(handle).toString(16)}`;
+}
+
+/*
+The concrete type of a table field, given the concrete type of the struct containing it
+*/
+export function getTableFieldTypeTag(containerTypeTag: TypeTag, struct: StructInfoType, field: string): StructTag {
+  if(!(containerTypeTag instanceof StructTag)) {
+    throw new Error(`${struct.structName} expects a StructTag as typeTag but received: ${getTypeTagFullname(containerTypeTag)}`);
+  }
+  const fieldDecl = struct.fields.find(f => f.name === field);
+  if (!fieldDecl) {
+    throw new Error(`${struct.structName} has no field named ${field}`);
+  }
+  const tableTypeTag = substituteTypeParams(fieldDecl.typeTag, containerTypeTag.typeParams);
+  if (!isTableTypeTag(tableTypeTag)) {
+    throw new Error(`${struct.structName}.${field} is not a table but: ${getTypeTagFullname(tableTypeTag)}`);
+  }
+  return tableTypeTag;
+}
+
 export type ParserFunc = (data: any, typeTag: TypeTag, repo: AptosParserRepo) => any;
 
+/*
+Reverse of parseStructProto: converts a struct instance into the JSON value that the REST API returns for it
+*/
+export function serializeStructProto(value: any, typeTag: TypeTag, repo: AptosParserRepo, struct: StructInfoType): any {
+  if(!(typeTag instanceof StructTag)) {
+    throw new Error(`${struct.structName} expects a StructTag as typeTag but received: ${typeTag}`);
+  }
+  if(!addressEquals(typeTag.address, struct.moduleAddress)) {
+    throw new Error(`${struct.structName} expects a moduleAddress of ${struct.moduleAddress} but received: ${typeTag.address}.`);
+  }
+  if(typeTag.module !== struct.moduleName) {
+    throw new Error(`${struct.structName} expects a moduleName of ${struct.moduleName} but received: ${typeTag.module}`);
+  }
+  if(typeTag.name !== struct.structName) {
+    throw new Error(`${struct.structName} expects a struct name of "${struct.structName}" but received: ${typeTag.name}`);
+  }
+  if(typeof value !== "object") {
+    // could be 0x1::ASCII::String
+    if (typeTag.address.toShortString() === '0x1' && typeTag.module === 'ASCII' && typeTag.name === 'String') {
+      return value;
+    }
+    throw new Error(`${struct.structName} expects value to be an object, but instead got: ${typeof value}`);
+  }
+
+  let data: any = {};
+  for(const fieldDecl of struct.fields) {
+    const fieldName = fieldDecl.name;
+    if(!(fieldName in value)) {
+      throw new Error(`${struct.structName} expects a field named ${fieldName} but it does not exist`);
+    }
+    const fieldTypeTag = substituteTypeParams(fieldDecl.typeTag, typeTag.typeParams);
+    const serializer = repo.getSerializerFromTypeTag(fieldTypeTag);
+    if(!serializer) {
+      throw new Error(`Failed to find serializer for ${fieldName} with type: ${getTypeTagFullname(fieldTypeTag)}`);
+    }
+    data[fieldName] = serializer(value[fieldName], fieldTypeTag, repo);
+  }
+  return data;
+}
+
+export type SerializerFunc = (value: any, typeTag: TypeTag, repo: AptosParserRepo) => any;
+
 export function U8Parser(data: any, typeTag: TypeTag, _repo: AptosParserRepo):number {
   if(typeTag !== AtomicTypeTag.U8) {
     throw new Error(`U8Parser cannot parse type: ${getTypeTagParamlessName(typeTag)}`);
@@ -84,6 +310,33 @@ export function U8Parser(data: any, typeTag: TypeTag, _repo: AptosParserRepo):nu
   return data as number;
 }
 
+/*
+u16 and u32 come as numbers, like u8
+*/
+function parseSmallUnsigned(data: any, typeTag: TypeTag, expected: AtomicTypeTag, max: number, parserName: string): number {
+  if(typeTag !== expected) {
+    throw new Error(`${parserName} cannot parse type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(typeof data !== "number") {
+    throw new Error(`${parserName} expects number type as data but received: ${typeof data}`);
+  }
+  if(data < 0 || data > max) {
+    throw new Error(`${parserName} expects a number between 0 and ${max}, but received: ${data}`);
+  }
+  if(!Number.isInteger(data)) {
+    throw new Error(`${parserName} expects an integer but received: ${data}`);
+  }
+  return data;
+}
+
+export function U16Parser(data: any, typeTag: TypeTag, _repo: AptosParserRepo): number {
+  return parseSmallUnsigned(data, typeTag, AtomicTypeTag.U16, 0xffff, "U16Parser");
+}
+
+export function U32Parser(data: any, typeTag: TypeTag, _repo: AptosParserRepo): number {
+  return parseSmallUnsigned(data, typeTag, AtomicTypeTag.U32, 0xffffffff, "U32Parser");
+}
+
 export function U64Parser(data: any, typeTag: TypeTag, _repo: AptosParserRepo): bigInt.BigInteger {
   if(typeTag !== AtomicTypeTag.U64) {
     throw new Error(`U64Parser cannot parse type: ${getTypeTagParamlessName(typeTag)}`);
@@ -104,6 +357,16 @@ export function U128Parser(data: any, typeTag: TypeTag, _repo: AptosParserRepo):
   return bigInt(data);
 }
 
+export function U256Parser(data: any, typeTag: TypeTag, _repo: AptosParserRepo): bigInt.BigInteger {
+  if(typeTag !== AtomicTypeTag.U256) {
+    throw new Error(`U256Parser cannot parse type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(typeof data !== "string") {
+    throw new Error(`U256Parser expects string type as data but received: ${typeof data}`);
+  }
+  return bigInt(data);
+}
+
 export function BoolParser(data: any, typeTag: TypeTag, _repo: AptosParserRepo): boolean {
   if(typeTag !== AtomicTypeTag.Bool) {
     throw new Error(`BoolParser cannot parse type: ${getTypeTagParamlessName(typeTag)}`);
@@ -124,6 +387,118 @@ export function AddressParser(data: any, typeTag: TypeTag, _repo: AptosParserRep
   return new HexString(data);
 }
 
+export function U8Serializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): number {
+  if(typeTag !== AtomicTypeTag.U8) {
+    throw new Error(`U8Serializer cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(typeof value !== "number") {
+    throw new Error(`U8Serializer expects number type as value but received: ${typeof value}`);
+  }
+  return value;
+}
+
+function serializeSmallUnsigned(value: any, typeTag: TypeTag, expected: AtomicTypeTag, serializerName: string): number {
+  if(typeTag !== expected) {
+    throw new Error(`${serializerName} cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(typeof value !== "number") {
+    throw new Error(`${serializerName} expects number type as value but received: ${typeof value}`);
+  }
+  return value;
+}
+
+export function U16Serializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): number {
+  return serializeSmallUnsigned(value, typeTag, AtomicTypeTag.U16, "U16Serializer");
+}
+
+export function U32Serializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): number {
+  return serializeSmallUnsigned(value, typeTag, AtomicTypeTag.U32, "U32Serializer");
+}
+
+export function U64Serializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): string {
+  if(typeTag !== AtomicTypeTag.U64) {
+    throw new Error(`U64Serializer cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(!bigInt.isInstance(value)) {
+    throw new Error(`U64Serializer expects BigInteger as value but received: ${typeof value}`);
+  }
+  return value.toString();
+}
+
+export function U128Serializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): string {
+  if(typeTag !== AtomicTypeTag.U128) {
+    throw new Error(`U128Serializer cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(!bigInt.isInstance(value)) {
+    throw new Error(`U128Serializer expects BigInteger as value but received: ${typeof value}`);
+  }
+  return value.toString();
+}
+
+export function U256Serializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): string {
+  if(typeTag !== AtomicTypeTag.U256) {
+    throw new Error(`U256Serializer cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(!bigInt.isInstance(value)) {
+    throw new Error(`U256Serializer expects BigInteger as value but received: ${typeof value}`);
+  }
+  return value.toString();
+}
+
+export function BoolSerializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): boolean {
+  if(typeTag !== AtomicTypeTag.Bool) {
+    throw new Error(`BoolSerializer cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(typeof value !== "boolean") {
+    throw new Error(`BoolSerializer expects bool type as value but received: ${typeof value}`);
+  }
+  return value;
+}
+
+export function AddressSerializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): string {
+  if(typeTag !== AtomicTypeTag.Address) {
+    throw new Error(`AddressSerializer cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  if(!(value instanceof HexString)) {
+    throw new Error(`AddressSerializer expects HexString as value but received: ${typeof value}`);
+  }
+  // the API trims leading zeros
+  return normalizeAddressString(value);
+}
+
+export function AsciiSerializer(value: any, typeTag: TypeTag, _repo: AptosParserRepo): string {
+  const tagName = getTypeTagFullname(typeTag);
+  if (tagName !== '0x1::ASCII::String') {
+    throw new Error(`AsciiSerializer only supports 0x1::ASCII::String but received: ${tagName}`);
+  }
+  if(typeof value !== "string") {
+    throw new Error(`AsciiSerializer expects string type as value but received: ${typeof value}`);
+  }
+  return value;
+}
+
+export function VectorSerializer(value: any, typeTag: TypeTag, repo: AptosParserRepo): any {
+  if(!(typeTag instanceof VectorTag)) {
+    throw new Error(`VectorSerializer cannot serialize type: ${getTypeTagParamlessName(typeTag)}`);
+  }
+  const elementType = typeTag.elementType;
+  if (elementType === AtomicTypeTag.U8) {
+    // vector<u8> goes out in hex string form
+    if(!(value instanceof AptosVectorU8)) {
+      throw new Error(`VectorSerializer expects AptosVectorU8 for vector<u8> but received: ${typeof value}`);
+    }
+    return value.hex();
+  }
+  if(!(value instanceof Array)) {
+    throw new Error(`VectorSerializer expects Array type as value but received: ${typeof value}`);
+  }
+  const elementSerializer = repo.getSerializerFromTypeTag(elementType);
+  if (!elementSerializer) {
+    throw new Error(`No serializer exists for type: ${getTypeTagParamlessName(elementType)}`);
+  }
+  return value.map(element => elementSerializer(element, elementType, repo));
+}
+
 export function parseVectorU8(data: any): AptosVectorU8 {
   if(typeof data !== "string") {
     throw new Error(`VectorU8 parser expects string data but received: ${typeof data}`);
@@ -214,16 +589,28 @@ export function VectorParser(data: any, typeTag: TypeTag, repo: AptosParserRepo)
 
 export class AptosParserRepo {
   paramlessNameToParser: Record<string, ParserFunc>;
+  paramlessNameToSerializer: Record<string, SerializerFunc>;
+  // generated struct classes, so that structs can be found by name (e.g. when restoring cache snapshots)
+  paramlessNameToStructInfo: Record<string, StructInfoType>;
+  // maps "address::module" to the error codes declared by that module
+  moduleToErrorCodes: Record<string, ErrorCodeTable>;
   constructor() {
     this.paramlessNameToParser = {};
-  }
-  async loadResource(client: AptosClient, address: HexString, structTsType: StructInfoType, typeParams: TypeTag[]) {
+    this.paramlessNameToSerializer = {};
+    this.paramlessNameToStructInfo = {};
+    this.moduleToErrorCodes = {};
+  }
+  async loadResource(
+    client: AptosClient,
+    address: HexString,
+    structTsType: StructInfoType,
+    typeParams: TypeTag[],
+    query?: { version?: string },
+  ) {
     // make a concrete typeTag
-    if(structTsType.typeParameters.length !== typeParams.length) {
-      throw new Error(`Expected ${structTsType.typeParameters.length} type parameters but got ${typeParams.length}`);
-    }
+    checkTypeArguments(getStructInfoParamlessName(structTsType), structTsType.typeParameters, typeParams, this);
     const typeTag = new StructTag(structTsType.moduleAddress, structTsType.moduleName, structTsType.structName, typeParams);
-    const resource = await client.getAccountResource(address, getTypeTagFullname(typeTag));
+    const resource = await client.getAccountResource(address, getTypeTagFullname(typeTag), query);
     const proto = parseStructProto(resource.data, typeTag, this, structTsType);
     return new structTsType(proto, typeTag);
   }
@@ -244,16 +631,96 @@ export class AptosParserRepo {
       return this.parse(e.data, tag);
     });
   }
+  /*
+  Reads one item of a table. The key is serialized according to the table's key type, and the item is parsed
+  according to its value type
+  */
+  async loadTableItem(client: AptosClient, handle: string, tableTypeTag: StructTag, key: any) {
+    if (!isTableTypeTag(tableTypeTag)) {
+      throw new Error(`Expected a table type but received: ${getTypeTagFullname(tableTypeTag)}`);
+    }
+    const [keyType, valueType] = tableTypeTag.typeParams;
+    const data = await client.getTableItem(handle, {
+      key_type: getTypeTagFullname(keyType),
+      value_type: getTypeTagFullname(valueType),
+      key: this.serialize(key, keyType),
+    });
+    return this.parse(data, valueType);
+  }
+  /*
+  Reads one item of a table field of a loaded struct
+  */
+  async loadTableFieldItem(client: AptosClient, container: any, struct: StructInfoType, field: string, key: any) {
+    const tableTypeTag = getTableFieldTypeTag(container.typeTag, struct, field);
+    return this.loadTableItem(client, getTableHandle(container[field]), tableTypeTag, key);
+  }
+  /*
+  Iterates over all events of a handle, fetching one page at a time
+  */
+  async *iterateEvents(
+    client: AptosClient,
+    address: HexString,
+    containerTypeTag: TypeTag,
+    field: string,
+    options: EventIterationOptions = {},
+  ): AsyncGenerator<any> {
+    const handlerFullname = getTypeTagFullname(containerTypeTag);
+    if(!(containerTypeTag instanceof StructTag)) {
+      throw new Error(`Event handler container struct should be a struct, but received: ${getTypeTagParamlessName(containerTypeTag)}`);
+    }
+    // the node may return fewer events than asked for, pages then shrink to what it returns
+    let pageSize = options.pageSize ?? DEFAULT_EVENT_PAGE_SIZE;
+    const maxCount = options.maxCount ?? Infinity;
+    const backward = options.direction === 'backward';
+    let next: number;
+    if (options.start !== undefined) {
+      next = options.start;
+    }
+    else if (backward) {
+      // the EventHandle's counter is the number of events emitted so far
+      const container = await client.getAccountResource(address, handlerFullname);
+      next = parseInt((container.data as any)[field].counter) - 1;
+    }
+    else {
+      next = 0;
+    }
+    let count = 0;
+    while (count < maxCount && next >= 0) {
+      const limit = Math.min(pageSize, maxCount - count);
+      // going backward, fetch the page that ends at next
+      const start = backward ? Math.max(0, next - limit + 1) : next;
+      const pageLimit = backward ? next - start + 1 : limit;
+      const events = await client.getEventsByEventHandle(address, handlerFullname, field, { start, limit: pageLimit });
+      const page = events
+        .map(e => ({ event: e, sequenceNumber: parseInt(e.sequence_number) }))
+        .filter(e => e.sequenceNumber >= start && e.sequenceNumber < start + pageLimit)
+        .sort((a, b) => backward ? b.sequenceNumber - a.sequenceNumber : a.sequenceNumber - b.sequenceNumber);
+      if (page.length === 0) {
+        // reached the end of the stream
+        break;
+      }
+      if (backward && page[0].sequenceNumber < next && page.length < pageLimit) {
+        // capped page that stops short of next: ask again for a page the node returns whole
+        pageSize = page.length;
+        continue;
+      }
+      for (const { event } of page) {
+        yield this.parse(event.data, parseTypeTagOrThrow(event.type));
+        count += 1;
+      }
+      next = backward ? page[page.length - 1].sequenceNumber - 1 : page[page.length - 1].sequenceNumber + 1;
+    }
+  }
   parse(data: object, typeTag: TypeTag) {
     const paramlessName = getTypeTagParamlessName(typeTag);
-    const parser = this.paramlessNameToParser[paramlessName];
+    const parser = this.paramlessNameToParser[normalizeParamlessName(paramlessName)];
     if (!parser) {
       throw new Error(`No parser registered for type: ${paramlessName}`);
     }
     return parser(data, typeTag, this);
   }
   getParserFromParamlessName(paramlessName: string): null | ParserFunc {
-    const parser = this.paramlessNameToParser[paramlessName];
+    const parser = this.paramlessNameToParser[normalizeParamlessName(paramlessName)];
     if (parser) {
       return parser;
     }
@@ -264,16 +731,76 @@ export class AptosParserRepo {
     return this.getParserFromParamlessName(paramlessName);
   }
   addParser(paramlessName: string, parser: ParserFunc) {
-    this.paramlessNameToParser[paramlessName] = parser;
+    this.paramlessNameToParser[normalizeParamlessName(paramlessName)] = parser;
   }
   addDefaultParsers() {
     // load the defaults
     this.addParser('bool', BoolParser);
     this.addParser('u8', U8Parser);
+    this.addParser('u16', U16Parser);
+    this.addParser('u32', U32Parser);
     this.addParser('u64', U64Parser);
     this.addParser('u128', U128Parser);
+    this.addParser('u256', U256Parser);
     this.addParser('address', AddressParser);
     this.addParser('vector', VectorParser);
     this.addParser('0x1::ASCII::String', AsciiParser);
   }
+  serialize(value: any, typeTag: TypeTag) {
+    const paramlessName = getTypeTagParamlessName(typeTag);
+    const serializer = this.paramlessNameToSerializer[normalizeParamlessName(paramlessName)];
+    if (!serializer) {
+      throw new Error(`No serializer registered for type: ${paramlessName}`);
+    }
+    return serializer(value, typeTag, this);
+  }
+  getSerializerFromParamlessName(paramlessName: string): null | SerializerFunc {
+    const serializer = this.paramlessNameToSerializer[normalizeParamlessName(paramlessName)];
+    if (serializer) {
+      return serializer;
+    }
+    return null;
+  }
+  getSerializerFromTypeTag(typeTag: TypeTag) {
+    const paramlessName = getTypeTagParamlessName(typeTag);
+    return this.getSerializerFromParamlessName(paramlessName);
+  }
+  addSerializer(paramlessName: string, serializer: SerializerFunc) {
+    this.paramlessNameToSerializer[normalizeParamlessName(paramlessName)] = serializer;
+  }
+  addStructInfo(struct: StructInfoType) {
+    this.paramlessNameToStructInfo[getStructInfoParamlessName(struct)] = struct;
+  }
+  getStructInfo(paramlessName: string): null | StructInfoType {
+    const struct = this.paramlessNameToStructInfo[normalizeParamlessName(paramlessName)];
+    if (struct) {
+      return struct;
+    }
+    return null;
+  }
+  /*
+  Registers the error codes of a module, so that its Move aborts can be reported by name (see getTransactionError)
+  */
+  addErrorCodes(moduleAddress: HexString, moduleName: string, errorCodes: ErrorCodeTable) {
+    this.moduleToErrorCodes[`${normalizeAddressString(moduleAddress)}::${moduleName}`] = errorCodes;
+  }
+  getErrorCodes(moduleAddress: HexString, moduleName: string): null | ErrorCodeTable {
+    const errorCodes = this.moduleToErrorCodes[`${normalizeAddressString(moduleAddress)}::${moduleName}`];
+    if (errorCodes) {
+      return errorCodes;
+    }
+    return null;
+  }
+  addDefaultSerializers() {
+    this.addSerializer('bool', BoolSerializer);
+    this.addSerializer('u8', U8Serializer);
+    this.addSerializer('u16', U16Serializer);
+    this.addSerializer('u32', U32Serializer);
+    this.addSerializer('u64', U64Serializer);
+    this.addSerializer('u128', U128Serializer);
+    this.addSerializer('u256', U256Serializer);
+    this.addSerializer('address', AddressSerializer);
+    this.addSerializer('vector', VectorSerializer);
+    this.addSerializer('0x1::ASCII::String', AsciiSerializer);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,490 @@
+import { AptosAccount, HexString, MaybeHexString, Types } from "aptos";
+import { sleep } from "aptos/dist/util";
+import bigInt from "big-integer";
+import { AptosResourceCache } from "../aptosResourceCache";
+import { JsonAbilityType } from "../jsonTypes";
+import { AptosParserRepo, FieldDeclType, parseStructProto, TypeParamDeclType } from "../parserRepo";
+import { bcsSerializeMoveValue } from "../bcs";
+import { FakeAptosClient } from "../fakeAptosClient";
+import { TransactionFailedError } from "../moveAbort";
+import { sendAndWait, TransactionTimeoutError } from "../txSender";
+import { AtomicTypeTag, getTypeTagFullname, parseTypeTagOrThrow, StructTag, TypeTag } from "../typeTag";
+import { assert } from "../utils";
+import { Counter, COUNTER_TYPE, counterWrite, makeTestRepo } from "./fakeAptosClientTests";
+
+/*
+Counts requests and keeps them in flight for a while
+*/
+class SlowFakeAptosClient extends FakeAptosClient {
+  resourceCalls = 0;
+  accountResourcesCalls = 0;
+  inFlight = 0;
+  maxInFlight = 0;
+  private async delay() {
+    this.inFlight += 1;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await sleep(5);
+    this.inFlight -= 1;
+  }
+  async getAccountResource(accountAddress: MaybeHexString, resourceType: string): Promise<Types.AccountResource> {
+    this.resourceCalls += 1;
+    await this.delay();
+    return super.getAccountResource(accountAddress, resourceType);
+  }
+  async getAccountResources(accountAddress: MaybeHexString): Promise<Types.AccountResource[]> {
+    this.accountResourcesCalls += 1;
+    await this.delay();
+    return super.getAccountResources(accountAddress);
+  }
+}
+
+class Flag {
+  static moduleAddress = new HexString("0x1234");
+  static moduleName = "TestModule";
+  static structName = "Flag";
+  static abilities: JsonAbilityType[] = ["key"];
+  static typeParameters: TypeParamDeclType[] = [];
+  static fields: FieldDeclType[] = [
+    {name: "on", typeTag: AtomicTypeTag.Bool},
+  ];
+
+  on: boolean;
+
+  constructor(proto: any, public typeTag: TypeTag) {
+    this.on = proto['on'];
+  }
+
+  static FlagParser(data: any, typeTag: TypeTag, repo: AptosParserRepo): Flag {
+    const proto = parseStructProto(data, typeTag, repo, Flag);
+    return new Flag(proto, typeTag);
+  }
+}
+
+const FLAG_TYPE = "0x1234::TestModule::Flag";
+
+export async function test() {
+  const repo = makeTestRepo();
+  repo.addParser(FLAG_TYPE, Flag.FlagParser);
+  repo.addStructInfo(Flag);
+  const counterTag = parseTypeTagOrThrow(COUNTER_TYPE);
+
+  async function testChangeDetection() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const address = new AptosAccount().address();
+    client.setResource(address, COUNTER_TYPE, { value: "1" });
+    const updates: any[] = [];
+    await cache.load(Counter, address, [], { id: "test", callback: (_, value) => updates.push(value) });
+    await cache.globalRefresh();
+    assert(updates.length === 0, "unchanged resources should not notify listeners");
+    client.setResource(address, COUNTER_TYPE, { value: "2" });
+    await cache.globalRefresh();
+    assert(updates.length === 1 && updates[0].value.equals(bigInt(2)));
+    const key = cache.getResourceKey(address, counterTag);
+    cache.updateResource(key, repo.parse(counterWrite(address, 2).data.data, counterTag));
+    assert(updates.length === 1);
+    console.log("Passed: cache change detection");
+  }
+  await testChangeDetection();
+
+  async function testAutoRefresh() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const address = new AptosAccount().address();
+    client.setResource(address, COUNTER_TYPE, { value: "1" });
+    let updates = 0;
+    await cache.load(Counter, address, [], { id: "test", callback: () => updates++ });
+    cache.startAutoRefresh({ intervalMs: 5 });
+    assert(cache.isAutoRefreshing());
+    client.setResource(address, COUNTER_TYPE, { value: "2" });
+    await sleep(50);
+    cache.stopAutoRefresh();
+    assert(!cache.isAutoRefreshing());
+    assert(updates === 1, `expected 1 update, got ${updates}`);
+    console.log("Passed: cache auto refresh");
+  }
+  await testAutoRefresh();
+
+  async function testBackoff() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const address = new AptosAccount().address();
+    client.setResource(address, COUNTER_TYPE, { value: "1" });
+    await cache.load(Counter, address, [], null);
+    const getAccountResource = client.getAccountResource.bind(client);
+    client.getAccountResource = async () => {
+      throw new Error("node unavailable");
+    };
+    const errors: any[] = [];
+    cache.startAutoRefresh({ intervalMs: 5, maxBackoffMs: 20, onError: e => errors.push(e) });
+    await sleep(60);
+    assert(errors.length >= 2 && cache.consecutiveRefreshFailures === errors.length);
+    assert(cache.getAutoRefreshDelay() <= 20);
+    client.getAccountResource = getAccountResource;
+    await sleep(40);
+    assert(cache.consecutiveRefreshFailures === 0);
+    assert(cache.getAutoRefreshDelay() === 5);
+    cache.stopAutoRefresh();
+    console.log("Passed: cache auto refresh backoff");
+  }
+  await testBackoff();
+
+  async function testDeletedResources() {
+    const client = new SlowFakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const [single, batched] = [new AptosAccount().address(), new AptosAccount().address()];
+    const batchedTag = parseTypeTagOrThrow("0x1234::TestModule::Box<u8>");
+    const seen: string[] = [];
+    const listener = { id: "test", callback: (type: string, value: any, version: any, resourceKey: string) => seen.push(`${type} ${resourceKey}`) };
+    client.setResource(single, COUNTER_TYPE, { value: "1" });
+    await cache.load(Counter, single, [], listener);
+    // refreshed with one getAccountResources call
+    const batchingCache = new AptosResourceCache(client, repo, { batchThreshold: 1 });
+    client.setResource(batched, COUNTER_TYPE, { value: "2" });
+    client.setResource(batched, getTypeTagFullname(batchedTag), { item: 1 });
+    await batchingCache.load(Counter, batched, [], listener);
+
+    // deleted on chain: a 404 for single loads, missing from the account for batched ones
+    client.removeResource(single, COUNTER_TYPE);
+    client.removeResource(batched, COUNTER_TYPE);
+    await cache.globalRefresh();
+    await batchingCache.globalRefresh();
+    const singleKey = cache.getResourceKey(single, counterTag);
+    const batchedKey = cache.getResourceKey(batched, counterTag);
+    assert(seen.join() === `delete ${singleKey},delete ${batchedKey}`, seen.join());
+    assert(!(singleKey in cache.cachedResources) && !(singleKey in cache.resourceKeyToLoadParams));
+    assert(!(batchedKey in batchingCache.cachedResources) && !(batchedKey in batchingCache.resourceKeyToLoadParams));
+    // nothing left to refresh
+    client.resourceCalls = 0;
+    await cache.globalRefresh();
+    assert(client.resourceCalls === 0);
+
+    // gone from a watched account
+    const watched = new AptosAccount().address();
+    client.setResource(watched, COUNTER_TYPE, { value: "3" });
+    await cache.loadAccount(watched, listener);
+    client.removeResource(watched, COUNTER_TYPE);
+    seen.length = 0;
+    await cache.globalRefresh();
+    const watchedKey = cache.getResourceKey(watched, counterTag);
+    assert(seen.join() === `delete ${watchedKey}` && !(watchedKey in cache.cachedResources), seen.join());
+    console.log("Passed: cache deleted resources");
+  }
+  await testDeletedResources();
+
+  async function testCoalescing() {
+    const client = new SlowFakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const address = new AptosAccount().address();
+    client.setResource(address, COUNTER_TYPE, { value: "1" });
+    const loads = await Promise.all([1, 2, 3].map(() => cache.load(Counter, address, [], null)));
+    assert(client.resourceCalls === 1, `expected 1 request, got ${client.resourceCalls}`);
+    assert(loads[0] === loads[2]);
+    await Promise.all([cache.loadAccount(address, null), cache.loadAccount(address, null)]);
+    assert(client.accountResourcesCalls === 1);
+    console.log("Passed: cache request coalescing");
+  }
+  await testCoalescing();
+
+  async function testRefreshConcurrencyAndBatching() {
+    const client = new SlowFakeAptosClient();
+    const cache = new AptosResourceCache(client, repo, { refreshConcurrency: 2 });
+    for (let i = 0; i < 6; i++) {
+      const address = new AptosAccount().address();
+      client.setResource(address, COUNTER_TYPE, { value: i.toString() });
+      await cache.load(Counter, address, [], null);
+    }
+    client.resourceCalls = 0;
+    client.maxInFlight = 0;
+    await cache.globalRefresh();
+    assert(client.resourceCalls === 6 && client.maxInFlight === 2, `max in flight: ${client.maxInFlight}`);
+
+    const batchingCache = new AptosResourceCache(client, repo, { batchThreshold: 1 });
+    const address = new AptosAccount().address();
+    client.setResource(address, COUNTER_TYPE, { value: "1" });
+    await batchingCache.load(Counter, address, [], null);
+    client.resourceCalls = 0;
+    client.accountResourcesCalls = 0;
+    client.setResource(address, COUNTER_TYPE, { value: "2" });
+    await batchingCache.globalRefresh();
+    assert(client.resourceCalls === 0 && client.accountResourcesCalls === 1);
+    const cached = batchingCache.cachedResources[batchingCache.getResourceKey(address, counterTag)];
+    assert(cached.value.equals(bigInt(2)));
+
+    // resources of an address are batched together, whatever form the address was loaded with
+    const owner = new HexString("0xb");
+    client.setResource(owner, COUNTER_TYPE, { value: "1" });
+    client.setResource(owner, FLAG_TYPE, { on: true });
+    const groupingCache = new AptosResourceCache(client, repo, { batchThreshold: 2 });
+    await groupingCache.load(Counter, new HexString("0xb"), [], null);
+    await groupingCache.load(Flag, new HexString("0x0b"), [], null);
+    client.resourceCalls = 0;
+    client.accountResourcesCalls = 0;
+    await groupingCache.globalRefresh();
+    assert(client.resourceCalls === 0 && client.accountResourcesCalls === 1);
+    console.log("Passed: cache refresh concurrency and batching");
+  }
+  await testRefreshConcurrencyAndBatching();
+
+  async function testLedgerVersions() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const address = new AptosAccount().address();
+    const key = cache.getResourceKey(address, counterTag);
+    assert(cache.getResourceKey(new HexString(`0x00${address.noPrefix()}`), counterTag) === key, "keys should not depend on address formatting");
+    client.setResource(address, COUNTER_TYPE, { value: "1" });
+    const versions: string[] = [];
+    await cache.load(Counter, address, [], { id: "test", callback: (_, __, version) => versions.push(String(version)) });
+    // single loads read at the latest ledger version
+    client.ledgerVersion = 2;
+    await cache.reload(key);
+    assert(String(cache.getResourceVersion(key)) === "2");
+
+    const txn = { success: true, hash: "0x1", version: "5", changes: [counterWrite(address, 9)] } as unknown as Types.UserTransaction;
+    cache.updateFromTransactionResult(txn);
+    assert(versions.join() === "5");
+    // a slow load that observed an older version must not clobber the transaction's write
+    const reloaded = await cache.reload(key, bigInt(4));
+    assert(reloaded.value.equals(bigInt(9)) && cache.cachedResources[key].value.equals(bigInt(9)));
+    assert(versions.join() === "5");
+
+    cache.deleteResource(key, bigInt(6));
+    cache.storeResource(key, reloaded, bigInt(5));
+    assert(!(key in cache.cachedResources), "older loads should not bring back deleted resources");
+    assert(versions.join() === "5,6");
+    // updates of unknown version cannot replace a known one
+    cache.storeResource(key, reloaded);
+    assert(!(key in cache.cachedResources) && String(cache.getResourceVersion(key)) === "6");
+    console.log("Passed: cache ledger versions");
+  }
+  await testLedgerVersions();
+
+  async function testSlowLoad() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const account = new AptosAccount();
+    const key = cache.getResourceKey(account.address(), counterTag);
+    client.setResource(account.address(), COUNTER_TYPE, { value: "1" });
+    await cache.load(Counter, account.address(), [], null);
+    // the next read sees the state before the transaction, and only resolves after it
+    let startedRead = () => {};
+    const readStarted = new Promise<void>(resolve => startedRead = resolve);
+    let finishRead = () => {};
+    const readFinished = new Promise<void>(resolve => finishRead = resolve);
+    const getAccountResource = client.getAccountResource.bind(client);
+    client.getAccountResource = async (address, type) => {
+      const resource = await getAccountResource(address, type);
+      startedRead();
+      await readFinished;
+      return resource;
+    };
+    const loading = cache.load(Counter, account.address(), [], null);
+    await readStarted;
+
+    client.scriptTransaction("0x1234::TestModule::increment", { changes: [counterWrite(account.address(), 7)] });
+    const txn = await sendAndWait(client, account, "0x1234::TestModule::increment", [], []);
+    cache.updateFromTransactionResult(txn);
+    assert(String(cache.getResourceVersion(key)) === "1");
+    finishRead();
+    const loaded = await loading;
+    assert(loaded.value.equals(bigInt(7)) && cache.cachedResources[key].value.equals(bigInt(7)));
+    assert(String(cache.getResourceVersion(key)) === "1", "the slow load should not clear the transaction's version");
+    console.log("Passed: cache slow load");
+  }
+  await testSlowLoad();
+
+  async function testOptimisticUpdates() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const account = new AptosAccount();
+    const key = cache.getResourceKey(account.address(), counterTag);
+    client.setResource(account.address(), COUNTER_TYPE, { value: "1" });
+    const seen: string[] = [];
+    await cache.load(Counter, account.address(), [], { id: "test", callback: (_, value) => seen.push(value.value.toString()) });
+    const predict = (value: number) => cache.optimisticUpdate([{ resourceKey: key, value: repo.parse({ value: value.toString() }, counterTag) }]);
+
+    client.scriptTransaction("0x1234::TestModule::increment", { changes: [counterWrite(account.address(), 3)] });
+    const sending = sendAndWait(client, account, "0x1234::TestModule::increment", [], [], { optimisticUpdate: predict(2) });
+    assert(seen.join() === "2", "the prediction should be shown right away");
+    await sending;
+    assert(seen.join() === "2,3" && cache.cachedResources[key].value.equals(bigInt(3)));
+
+    client.scriptTransaction("0x1234::TestModule::increment", { success: false, vmStatus: "Out of gas" });
+    let error: any = null;
+    try {
+      await sendAndWait(client, account, "0x1234::TestModule::increment", [], [], { optimisticUpdate: predict(4) });
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TransactionFailedError);
+    assert(seen.join() === "2,3,4,3", "failed transactions should roll back");
+
+    // updates arriving while a prediction is pending are held back, and shown on rollback
+    const pending = predict(10);
+    pending.apply();
+    client.setResource(account.address(), COUNTER_TYPE, { value: "5" });
+    await cache.globalRefresh();
+    assert(cache.cachedResources[key].value.equals(bigInt(10)));
+    pending.rollback();
+    assert(seen.join() === "2,3,4,3,10,5");
+
+    // the transaction may still be committed after a wait timeout: the prediction stays until a refresh settles it
+    client.scriptTransaction("0x1234::TestModule::increment", { changes: [counterWrite(account.address(), 6)], pendingPolls: 100 });
+    error = null;
+    try {
+      await sendAndWait(client, account, "0x1234::TestModule::increment", [], [], { optimisticUpdate: predict(6), waitTimeoutMs: 50 });
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TransactionTimeoutError);
+    assert(seen.join() === "2,3,4,3,10,5,6", "timeouts should not roll back");
+    client.pendingTransactions[error.txnHash] = 0;
+    assert(!(await client.transactionPending(error.txnHash)));
+    await cache.globalRefresh();
+    client.setResource(account.address(), COUNTER_TYPE, { value: "7" });
+    await cache.globalRefresh();
+    assert(seen.join() === "2,3,4,3,10,5,6,7", "refreshes should settle the prediction");
+    console.log("Passed: cache optimistic updates");
+  }
+  await testOptimisticUpdates();
+
+  async function testUnsubscribeAndEviction() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo, { maxResources: 2 });
+    const addresses = [1, 2, 3].map(() => new AptosAccount().address());
+    addresses.forEach((address, i) => client.setResource(address, COUNTER_TYPE, { value: i.toString() }));
+    const keys = addresses.map(address => cache.getResourceKey(address, counterTag));
+    let updates = 0;
+    const { unsubscribe } = await cache.subscribe(Counter, addresses[0], [], { id: "test", callback: () => updates++ });
+    await cache.load(Counter, addresses[1], [], null);
+    await cache.load(Counter, addresses[2], [], null);
+    assert(keys[0] in cache.cachedResources, "resources with listeners should not be evicted");
+    assert(!(keys[1] in cache.cachedResources) && keys[2] in cache.cachedResources);
+
+    unsubscribe();
+    client.setResource(addresses[0], COUNTER_TYPE, { value: "5" });
+    await cache.reload(keys[0]);
+    assert(updates === 0, "removed listeners should not be notified");
+    // keys[2] is now the least recently used resource without listeners
+    await cache.load(Counter, addresses[1], [], null);
+    assert(Object.keys(cache.cachedResources).length === 2 && !(keys[2] in cache.cachedResources));
+
+    // watched addresses are identified by value, not by HexString instance
+    const watched = await cache.loadAccount(new HexString(addresses[2].hex()), null);
+    await cache.loadAccount(new HexString(addresses[2].hex()), null);
+    assert(cache.watchedAddresses.size === 1 && keys[2] in cache.cachedResources);
+    cache.unwatchAddress(addresses[2]);
+    assert(!cache.isWatched(addresses[2]) && !(watched[0] in cache.cachedResources));
+    console.log("Passed: cache unsubscribe and eviction");
+  }
+  await testUnsubscribeAndEviction();
+
+  async function testSharedListeners() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const address = new AptosAccount().address();
+    const key = cache.getResourceKey(address, counterTag);
+    client.setResource(address, COUNTER_TYPE, { value: "1" });
+    let updates = 0;
+    const listener = { id: "shared", callback: () => updates++ };
+    // the same listener, through a single load and through its account
+    const resource = await cache.subscribe(Counter, address, [], listener);
+    const account = await cache.subscribeAccount(address, listener);
+    assert(resource.resource.value.equals(bigInt(1)) && account.resourceKeys.join() === key);
+    assert(cache.updateListener[key].length === 1, "listeners are added once per id");
+
+    resource.unsubscribe();
+    resource.unsubscribe();
+    client.setResource(address, COUNTER_TYPE, { value: "2" });
+    await cache.globalRefresh();
+    assert(updates === 1, "the account subscription should keep the listener");
+    account.unsubscribe();
+    assert(!(key in cache.updateListener));
+    console.log("Passed: cache shared listeners");
+  }
+  await testSharedListeners();
+
+  async function testSnapshots() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const loaded = new AptosAccount().address();
+    const watched = new AptosAccount().address();
+    client.setResource(loaded, COUNTER_TYPE, { value: "1" });
+    client.setResource(watched, COUNTER_TYPE, { value: "2" });
+    client.ledgerVersion = 3;
+    await cache.load(Counter, loaded, [], null);
+    await cache.loadAccount(watched, null);
+    // refreshes read at a known ledger version
+    await cache.globalRefresh();
+    const snapshot = JSON.parse(JSON.stringify(cache.toSnapshot()));
+
+    const restored = new AptosResourceCache(client, repo);
+    restored.restoreSnapshot(snapshot);
+    const loadedKey = restored.getResourceKey(loaded, counterTag);
+    const watchedKey = restored.getResourceKey(watched, counterTag);
+    assert(restored.cachedResources[loadedKey] instanceof Counter && restored.cachedResources[loadedKey].value.equals(bigInt(1)));
+    assert(restored.getResourceVersion(watchedKey)!.equals(3) && restored.isWatched(watched));
+    assert(restored.resourceKeyToLoadParams[loadedKey][0] === Counter);
+    // restored caches refresh like the original
+    client.setResource(loaded, COUNTER_TYPE, { value: "4" });
+    client.setResource(watched, COUNTER_TYPE, { value: "5" });
+    client.ledgerVersion = 4;
+    await restored.globalRefresh();
+    assert(restored.cachedResources[loadedKey].value.equals(bigInt(4)) && restored.cachedResources[watchedKey].value.equals(bigInt(5)));
+    console.log("Passed: cache snapshots");
+  }
+  await testSnapshots();
+
+  async function testTableItems() {
+    const client = new FakeAptosClient();
+    const cache = new AptosResourceCache(client, repo);
+    const tableTypeTag = parseTypeTagOrThrow(`0x1::Table::Table<address,${COUNTER_TYPE}>`) as StructTag;
+    const key = new AptosAccount().address();
+    client.setTableItem("42", key.toShortString(), { value: "1" });
+    const seen: string[] = [];
+    const item = await cache.loadTableItem("42", tableTypeTag, key, { id: "test", callback: (type, value) => seen.push(type === 'update' ? value.value.toString() : type) });
+    assert(item instanceof Counter && item.value.equals(bigInt(1)));
+    client.setTableItem("42", key.toShortString(), { value: "2" });
+    await cache.globalRefresh();
+    assert(seen.join() === "2");
+
+    // transactions report table handles in hex, and keys and values BCS-encoded
+    const keyBytes = HexString.fromUint8Array(bcsSerializeMoveValue(key, AtomicTypeTag.Address)).hex();
+    const value = HexString.fromUint8Array(bcsSerializeMoveValue(bigInt(3), AtomicTypeTag.U64)).hex();
+    const write = { type: "write_table_item", state_key_hash: "0x00", handle: "0x2a", key: keyBytes, value };
+    const del = { type: "delete_table_item", state_key_hash: "0x00", data: { handle: "0x2a", key: keyBytes } };
+    cache.updateFromTransactionResult({ success: true, hash: "0x1", version: "5", changes: [write] } as unknown as Types.UserTransaction);
+    assert(seen.join() === "2,3" && cache.cachedResources[cache.getTableItemKey("42", tableTypeTag, key)] instanceof Counter);
+    cache.updateFromTransactionResult({ success: true, hash: "0x2", version: "6", changes: [del] } as unknown as Types.UserTransaction);
+    assert(seen.join() === "2,3,delete");
+    console.log("Passed: cache table items");
+  }
+  await testTableItems();
+
+  async function testPatterns() {
+    const client = new FakeAptosClient();
+    const coinRepo = makeTestRepo();
+    coinRepo.addParser("0x1::Coin::CoinStore", data => data);
+    const cache = new AptosResourceCache(client, coinRepo);
+    const owner = new AptosAccount().address();
+    client.setResource(owner, "0x1::Coin::CoinStore<0x1::AptosCoin::AptosCoin>", { value: "1" });
+    client.setResource(owner, COUNTER_TYPE, { value: "1" });
+    const seen: string[] = [];
+    const resourceKeys = await cache.loadAccount(owner, { id: "test", callback: (type, value, version, resourceKey) => seen.push(resourceKey) }, "0x1::Coin::CoinStore<_>");
+    assert(resourceKeys.length === 1 && resourceKeys[0].endsWith("0x1::AptosCoin::AptosCoin>"));
+    assert(cache.getResourceKeys("0x1234::*::Counter", owner).length === 1);
+
+    const coinStoreUpdates: string[] = [];
+    cache.addListenerForPattern("0x1::Coin::CoinStore<_>", { id: "coins", callback: (type, value, version, resourceKey) => coinStoreUpdates.push(resourceKey) }, owner);
+    client.setResource(owner, "0x1::Coin::CoinStore<0xabc::Token::T>", { value: "5" });
+    client.setResource(owner, COUNTER_TYPE, { value: "2" });
+    await cache.globalRefresh();
+    assert(coinStoreUpdates.length === 1 && coinStoreUpdates[0].endsWith("0xabc::Token::T>"), "new resources should be delivered to pattern listeners");
+    assert(seen.length === 0, "the counter should not be listened to");
+    assert(cache.getResourceKeys("0x1::Coin::CoinStore<_>").length === 2);
+    console.log("Passed: cache type patterns");
+  }
+  await testPatterns();
+}
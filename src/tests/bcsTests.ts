@@ -0,0 +1,91 @@
+import { AptosAccount, BCS, HexString, TxnBuilderTypes } from "aptos";
+import bigInt from "big-integer";
+import { bcsDeserializeMoveValue, bcsSerializeMoveValue, bcsSerializeTypeTag } from "../bcs";
+import { AptosParserRepo, AptosVectorU8 } from "../parserRepo";
+import { buildPayloadBCS, buildRawTransactionBCS, ExternalSigner, signRawTransactionBCS } from "../txSender";
+import { parseTypeTagOrThrow } from "../typeTag";
+import { assert } from "../utils";
+
+function bytesEqual(a: Uint8Array, b: Uint8Array) {
+  return HexString.fromUint8Array(a).hex() === HexString.fromUint8Array(b).hex();
+}
+
+export async function test() {
+  function testMoveValues() {
+    const u64 = bcsSerializeMoveValue(bigInt("1311768467750121216"), parseTypeTagOrThrow("u64"));
+    assert(bytesEqual(u64, new Uint8Array([0x00, 0xEF, 0xCD, 0xAB, 0x78, 0x56, 0x34, 0x12])));
+
+    const u128 = bcsSerializeMoveValue(bigInt("340282366920938463463374607431768211455"), parseTypeTagOrThrow("u128"));
+    assert(bytesEqual(u128, new Uint8Array(16).fill(0xff)));
+
+    const vecU8 = bcsSerializeMoveValue(new AptosVectorU8([1, 2, 3]), parseTypeTagOrThrow("vector<u8>"));
+    assert(bytesEqual(vecU8, new Uint8Array([3, 1, 2, 3])));
+
+    const vecU64 = bcsSerializeMoveValue([bigInt(1), bigInt(2)], parseTypeTagOrThrow("vector<u64>"));
+    assert(bytesEqual(vecU64, new Uint8Array([2, 1, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0])));
+
+    let threw = false;
+    try {
+      bcsSerializeMoveValue(bigInt("18446744073709551616"), parseTypeTagOrThrow("u64"));
+    }
+    catch(e) {
+      threw = true;
+    }
+    assert(threw, "u64 overflow should throw");
+
+    const repo = new AptosParserRepo();
+    for (const [type, value] of [["u16", 0xabcd], ["u32", 0x12345678], ["u256", bigInt(2).pow(255).add(7)]] as [string, any][]) {
+      const tag = parseTypeTagOrThrow(type);
+      const decoded = bcsDeserializeMoveValue(bcsSerializeMoveValue(value, tag), tag, repo);
+      assert(decoded.toString() === value.toString(), `${type} should round trip`);
+    }
+    console.log("Passed: BCS move values");
+  }
+  testMoveValues();
+
+  function testTypeTags() {
+    const theirs = BCS.bcsToBytes(new TxnBuilderTypes.TypeTagVector(new TxnBuilderTypes.TypeTagU8()));
+    assert(bytesEqual(bcsSerializeTypeTag(parseTypeTagOrThrow("vector<u8>")), theirs));
+    const plainStruct = BCS.bcsToBytes(new TxnBuilderTypes.TypeTagStruct(TxnBuilderTypes.StructTag.fromString("0x1::Coin::USD")));
+    assert(bytesEqual(bcsSerializeTypeTag(parseTypeTagOrThrow("0x1::Coin::USD")), plainStruct));
+    const nested = BCS.bcsToBytes(new TxnBuilderTypes.TypeTagStruct(new TxnBuilderTypes.StructTag(
+      TxnBuilderTypes.AccountAddress.fromHex("0x1"),
+      new TxnBuilderTypes.Identifier("Coin"),
+      new TxnBuilderTypes.Identifier("CoinStore"),
+      [new TxnBuilderTypes.TypeTagStruct(TxnBuilderTypes.StructTag.fromString("0x1::Coin::USD")), new TxnBuilderTypes.TypeTagU64()],
+    )));
+    assert(bytesEqual(bcsSerializeTypeTag(parseTypeTagOrThrow("0x1::Coin::CoinStore<0x1::Coin::USD,u64>")), nested));
+    // integer types newer than TxnBuilderTypes, by their Move variant index
+    assert(bytesEqual(bcsSerializeTypeTag(parseTypeTagOrThrow("u16")), new Uint8Array([8])));
+    assert(bytesEqual(bcsSerializeTypeTag(parseTypeTagOrThrow("vector<u32>")), new Uint8Array([6, 9])));
+    assert(bytesEqual(bcsSerializeTypeTag(parseTypeTagOrThrow("u256")), new Uint8Array([10])));
+    console.log("Passed: BCS type tags");
+  }
+  testTypeTags();
+
+  async function testSignedTransaction() {
+    const account = new AptosAccount();
+    const payload = buildPayloadBCS("0x1::Coin::transfer", [parseTypeTagOrThrow("0x1::TestCoin::TestCoin")], [
+      bcsSerializeMoveValue(new HexString("0x1234"), parseTypeTagOrThrow("address")),
+      bcsSerializeMoveValue(bigInt(100), parseTypeTagOrThrow("u64")),
+    ]);
+    const rawTxn = buildRawTransactionBCS(account.address(), 7, payload, 4);
+    const signed = await signRawTransactionBCS(account, rawTxn);
+    const deserialized = TxnBuilderTypes.SignedTransaction.deserialize(new BCS.Deserializer(signed));
+    assert(deserialized.raw_txn.sequence_number === BigInt(7));
+    assert(deserialized.raw_txn.chain_id.value === 4);
+
+    // an external signer only sees the signing message, and must produce the same transaction
+    const signedMessages: string[] = [];
+    const external = new ExternalSigner(account.address(), account.pubKey(), async (message, address) => {
+      assert(address.hex() === account.address().hex());
+      signedMessages.push(message.hex());
+      return account.signHexString(message);
+    });
+    const externallySigned = await signRawTransactionBCS(external, rawTxn);
+    assert(signedMessages.length === 1);
+    assert(bytesEqual(signed, externallySigned));
+    console.log("Passed: BCS signed transaction");
+  }
+  await testSignedTransaction();
+}
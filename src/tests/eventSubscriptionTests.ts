@@ -0,0 +1,98 @@
+import { HexString } from "aptos";
+import { EventSubscription } from "../eventSubscription";
+import { FakeAptosClient } from "../fakeAptosClient";
+import { EventIterationOptions } from "../parserRepo";
+import { parseTypeTagOrThrow, StructTag } from "../typeTag";
+import { assert } from "../utils";
+import { Counter, COUNTER_TYPE, makeTestRepo } from "./fakeAptosClientTests";
+
+export async function test() {
+  const repo = makeTestRepo();
+  const owner = new HexString("0xabc");
+  const containerTypeTag = parseTypeTagOrThrow(COUNTER_TYPE) as StructTag;
+
+  function emit(client: FakeAptosClient, count: number) {
+    for (let i = 0; i < count; i++) {
+      client.addEvent(owner, COUNTER_TYPE, "increments", COUNTER_TYPE, { value: i.toString() });
+    }
+  }
+
+  async function testPoll() {
+    const client = new FakeAptosClient();
+    emit(client, 5);
+    const subscription = new EventSubscription<Counter>(client, repo, owner, containerTypeTag, "increments", { pageSize: 2 });
+    const received: number[] = [];
+    subscription.onEvent(event => received.push(event.sequenceNumber));
+    assert((await subscription.poll()).length === 5);
+    assert((await subscription.poll()).length === 0, "events should only be delivered once");
+    emit(client, 1);
+    const [newEvent] = await subscription.poll();
+    assert(newEvent.sequenceNumber === 5 && newEvent.data instanceof Counter);
+    assert(JSON.stringify(received) === "[0,1,2,3,4,5]");
+    assert(subscription.lastSequenceNumber === 5);
+
+    // a throwing callback neither loses events nor stops delivery
+    const errors: any[] = [];
+    const failing = new EventSubscription<Counter>(client, repo, owner, containerTypeTag, "increments", { onError: e => errors.push(e) });
+    const delivered: number[] = [];
+    failing.onEvent(event => {
+      if (event.sequenceNumber === 1) {
+        throw new Error("callback failed");
+      }
+    });
+    failing.onEvent(event => delivered.push(event.sequenceNumber));
+    assert((await failing.poll()).length === 6);
+    assert(delivered.join() === "0,1,2,3,4,5" && errors.length === 1 && errors[0].message === "callback failed");
+
+    const resumed = new EventSubscription<Counter>(client, repo, owner, containerTypeTag, "increments", { fromSequenceNumber: 4 });
+    assert((await resumed.poll()).map(e => e.sequenceNumber).join() === "4,5");
+    console.log("Passed: event subscription poll");
+  }
+  await testPoll();
+
+  async function testAsyncIterator() {
+    const client = new FakeAptosClient();
+    emit(client, 1);
+    const subscription = new EventSubscription<Counter>(client, repo, owner, containerTypeTag, "increments", { pollIntervalMs: 5 });
+    setTimeout(() => emit(client, 2), 20);
+    const received: number[] = [];
+    for await (const event of subscription) {
+      received.push(event.sequenceNumber);
+      if (received.length === 3) {
+        // ends the loop
+        subscription.stop();
+      }
+    }
+    assert(received.join() === "0,1,2");
+    assert(!subscription.isPolling());
+    console.log("Passed: event subscription async iterator");
+  }
+  await testAsyncIterator();
+
+  async function testIterateEvents() {
+    const client = new FakeAptosClient();
+    emit(client, 7);
+    client.setResource(owner, COUNTER_TYPE, { value: "0", increments: { counter: "7" } });
+    async function collect(options: EventIterationOptions) {
+      const values: string[] = [];
+      for await (const event of repo.iterateEvents(client, owner, containerTypeTag, "increments", { pageSize: 3, ...options })) {
+        values.push((event as Counter).value.toString());
+      }
+      return values.join();
+    }
+    assert(await collect({}) === "0,1,2,3,4,5,6");
+    assert(await collect({ start: 2, maxCount: 4 }) === "2,3,4,5");
+    assert(await collect({ direction: "backward" }) === "6,5,4,3,2,1,0");
+    assert(await collect({ direction: "backward", start: 4, maxCount: 2 }) === "4,3");
+
+    // a node that returns at most 2 events per page
+    const getEventsByEventHandle = client.getEventsByEventHandle.bind(client);
+    client.getEventsByEventHandle = async (address, eventHandleStruct, fieldName, query) => {
+      return getEventsByEventHandle(address, eventHandleStruct, fieldName, { ...query, limit: Math.min(query?.limit ?? 25, 2) });
+    };
+    assert(await collect({}) === "0,1,2,3,4,5,6");
+    assert(await collect({ direction: "backward" }) === "6,5,4,3,2,1,0");
+    console.log("Passed: iterate events");
+  }
+  await testIterateEvents();
+}
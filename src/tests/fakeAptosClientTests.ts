@@ -0,0 +1,193 @@
+import { AptosAccount, HexString, Types } from "aptos";
+import bigInt from "big-integer";
+import { AptosResourceCache } from "../aptosResourceCache";
+import { bcsSerializeMoveValue } from "../bcs";
+import { FakeAptosClient } from "../fakeAptosClient";
+import { MoveAbortError } from "../moveAbort";
+import { JsonAbilityType } from "../jsonTypes";
+import { AptosParserRepo, FieldDeclType, parseStructProto, serializeStructProto, TypeParamDeclType } from "../parserRepo";
+import { buildPayload, generateTransactionRequest, sendAndWait, signTransaction } from "../txSender";
+import { parseTypeTagOrThrow, TypeTag } from "../typeTag";
+import { assert } from "../utils";
+
+export class Counter {
+  static moduleAddress = new HexString("0x1234");
+  static moduleName = "TestModule";
+  static structName = "Counter";
+  static abilities: JsonAbilityType[] = ["key"];
+  static typeParameters: TypeParamDeclType[] = [];
+  static fields: FieldDeclType[] = [
+    {name: "value", typeTag: parseTypeTagOrThrow("u64")},
+  ];
+
+  value: bigInt.BigInteger;
+
+  constructor(proto: any, public typeTag: TypeTag) {
+    this.value = proto['value'];
+  }
+
+  static CounterParser(data: any, typeTag: TypeTag, repo: AptosParserRepo): Counter {
+    const proto = parseStructProto(data, typeTag, repo, Counter);
+    return new Counter(proto, typeTag);
+  }
+
+  static CounterSerializer(value: any, typeTag: TypeTag, repo: AptosParserRepo): any {
+    return serializeStructProto(value, typeTag, repo, Counter);
+  }
+}
+
+export const COUNTER_TYPE = "0x1234::TestModule::Counter";
+
+export function makeTestRepo() {
+  const repo = new AptosParserRepo();
+  repo.addParser(COUNTER_TYPE, Counter.CounterParser);
+  repo.addSerializer(COUNTER_TYPE, Counter.CounterSerializer);
+  repo.addStructInfo(Counter);
+  repo.addDefaultParsers();
+  repo.addDefaultSerializers();
+  return repo;
+}
+
+export function counterWrite(address: HexString, value: number): Types.WriteResource {
+  return {
+    type: "write_resource",
+    address: address.hex(),
+    state_key_hash: "0x00",
+    data: { type: COUNTER_TYPE, data: { value: value.toString() } },
+  };
+}
+
+export async function test() {
+  const repo = makeTestRepo();
+  const owner = new HexString("0x0abc");
+
+  async function testReads() {
+    const client = new FakeAptosClient();
+    client.setResource(owner, COUNTER_TYPE, { value: "7" });
+    const counter = await repo.loadResource(client, new HexString("0xabc"), Counter, []) as Counter;
+    assert(counter.value.equals(bigInt(7)));
+    assert((await client.getAccountResources("0xabc")).length === 1);
+
+    client.addEvent(owner, COUNTER_TYPE, "increments", COUNTER_TYPE, { value: "1" });
+    client.addEvent(owner, COUNTER_TYPE, "increments", COUNTER_TYPE, { value: "2" });
+    const events = await repo.loadEvents(client, owner, parseTypeTagOrThrow(COUNTER_TYPE), "increments", { start: 1 });
+    assert(events.length === 1 && events[0].value.equals(bigInt(2)));
+
+    let threw = false;
+    try {
+      await client.getAccountResource(owner, "0x1234::TestModule::Missing");
+    }
+    catch(e) {
+      threw = true;
+    }
+    assert(threw, "missing resources should throw");
+    console.log("Passed: fake client reads");
+  }
+  await testReads();
+
+  async function testTransactions() {
+    const client = new FakeAptosClient();
+    const account = new AptosAccount();
+    const cache = new AptosResourceCache(client, repo);
+    client.setResource(account.address(), COUNTER_TYPE, { value: "1" });
+    let updates = 0;
+    await cache.load(Counter, account.address(), [], { id: "test", callback: () => updates++ });
+
+    client.scriptTransaction("0x1234::TestModule::increment", { changes: [counterWrite(account.address(), 2)], pendingPolls: 2 });
+    const txn = await sendAndWait(client, account, "0x1234::TestModule::increment", [], []);
+    assert(txn.success && txn.changes.length === 1);
+    cache.updateFromTransactionResult(txn);
+    assert(updates === 1);
+    const cached = cache.cachedResources[cache.getResourceKey(account.address(), parseTypeTagOrThrow(COUNTER_TYPE))];
+    assert(cached.value.equals(bigInt(2)));
+    const onChain = await client.getAccountResource(account.address(), COUNTER_TYPE);
+    assert((onChain.data as any).value === "2");
+
+    repo.addErrorCodes(Counter.moduleAddress, Counter.moduleName, {"1": "ECOUNTER_OVERFLOW"});
+    client.scriptTransaction("0x1234::TestModule::increment", { success: false, vmStatus: "Move abort in 0x1234::TestModule: 0x1" });
+    let error: any = null;
+    try {
+      await sendAndWait(client, account, "0x1234::TestModule::increment", [], [], { repo });
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof MoveAbortError && error.constantName === "ECOUNTER_OVERFLOW");
+    assert((await client.getAccount(account.address())).sequence_number === "2");
+    console.log("Passed: fake client transactions");
+  }
+  await testTransactions();
+
+  async function testCommitOrder() {
+    const client = new FakeAptosClient();
+    const account = new AptosAccount();
+    const increment = "0x1234::TestModule::increment";
+    const submit = async (sequenceNumber: number) => {
+      const request = await generateTransactionRequest(client, account.address(), buildPayload(increment, [], []), { sequenceNumber });
+      return client.submitTransaction(await signTransaction(client, account, request));
+    };
+    const readCounter = async () => {
+      try {
+        return ((await client.getAccountResource(account.address(), COUNTER_TYPE)).data as any).value;
+      }
+      catch(e) {
+        return null;
+      }
+    };
+    client.scriptTransaction(increment, { changes: [counterWrite(account.address(), 1)], pendingPolls: 1 });
+    client.scriptTransaction(increment, { changes: [counterWrite(account.address(), 2)] });
+    const first = await submit(0);
+    // changes are only visible once the transaction is committed
+    assert(await readCounter() === null && client.ledgerVersion === 0);
+    // held behind the gap at sequence number 1
+    const third = await submit(2);
+    assert(await client.transactionPending(first.hash));
+    assert(!(await client.transactionPending(first.hash)));
+    assert(await readCounter() === "1" && client.ledgerVersion === 1);
+    assert(await client.transactionPending(third.hash));
+    assert((await client.getTransaction(third.hash)).type === "pending_transaction");
+
+    for (const sequenceNumber of [0, 2]) {
+      let threw = false;
+      try {
+        await submit(sequenceNumber);
+      }
+      catch(e) {
+        threw = true;
+      }
+      assert(threw, `sequence number ${sequenceNumber} is used or pending`);
+    }
+    await submit(1);
+    assert(!(await client.transactionPending(third.hash)));
+    assert(await readCounter() === "2" && (await client.getAccount(account.address())).sequence_number === "3");
+    console.log("Passed: fake client commit order");
+  }
+  await testCommitOrder();
+
+  async function testTableChanges() {
+    const client = new FakeAptosClient(4, repo);
+    const account = new AptosAccount();
+    const handle = "0x99";
+    const bcsHex = (value: any, type: string) => HexString.fromUint8Array(bcsSerializeMoveValue(value, parseTypeTagOrThrow(type))).hex();
+    client.setTableItem(handle, "0x6", { value: "9" });
+    // generated code calls functions by their full address
+    client.scriptTransaction(`${"0x" + "1234".padStart(64, "0")}::TestModule::increment`, { changes: [
+      { type: "write_table_item", state_key_hash: "0x00", handle, key: bcsHex("0x5", "address"), value: bcsHex("3", "u64") },
+      { type: "delete_table_item", state_key_hash: "0x00", data: { handle, key: bcsHex("0x6", "address") } },
+    ] as Types.WriteSetChange[] });
+    await sendAndWait(client, account, "0x1234::TestModule::increment", [], []);
+
+    const written = await client.getTableItem(handle, { key_type: "address", value_type: "u64", key: "0x5" });
+    assert(written === "3");
+    let threw = false;
+    try {
+      await client.getTableItem(handle, { key_type: "address", value_type: "u64", key: "0x6" });
+    }
+    catch(e) {
+      threw = true;
+    }
+    assert(threw, "deleted table items should be gone");
+    console.log("Passed: fake client table changes");
+  }
+  await testTableChanges();
+}
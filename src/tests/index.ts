@@ -1,5 +1,15 @@
 import { AptosTsgen } from "../aptosTsgen";
 import { test } from "./typeTagTests";
+import { test as testSerializers } from "./serializerTests";
+import { test as testTypeArguments } from "./typeArgumentTests";
+import { test as testBCS } from "./bcsTests";
+import { test as testMoveAbort } from "./moveAbortTests";
+import { test as testFakeAptosClient } from "./fakeAptosClientTests";
+import { test as testAptosResourceCache } from "./aptosResourceCacheTests";
+import { test as testEventSubscription } from "./eventSubscriptionTests";
+import { test as testTypeTagPatterns } from "./typeTagPatternTests";
+import { test as testTxSender } from "./txSenderTests";
+import { test as testTsgen } from "./tsgenTests";
 
 const tsgen = async (args: string[]) => {
   const generator = new AptosTsgen([], args[0], args.slice(1));
@@ -13,6 +23,16 @@ const main = async () => {
   switch (fname) {
     case "test": 
       await test();
+      testTypeTagPatterns();
+      await testSerializers();
+      await testTypeArguments();
+      await testBCS();
+      await testMoveAbort();
+      await testFakeAptosClient();
+      await testAptosResourceCache();
+      await testEventSubscription();
+      await testTxSender();
+      testTsgen();
       break;
     case "tsgen":
       await tsgen(remainingArgs);
@@ -0,0 +1,46 @@
+import { HexString, Types } from "aptos";
+import bigInt from "big-integer";
+import { getTransactionError, MoveAbortError, parseMoveAbort, TransactionFailedError } from "../moveAbort";
+import { AptosParserRepo } from "../parserRepo";
+import { assert } from "../utils";
+
+function failedTxn(vmStatus: string): Types.UserTransaction {
+  return { success: false, vm_status: vmStatus, hash: "0x1234" } as Types.UserTransaction;
+}
+
+export function test() {
+  const repo = new AptosParserRepo();
+  repo.addErrorCodes(new HexString("0x1"), "Coin", {"6": "EINSUFFICIENT_BALANCE", "18446744073709551615": "EMAX"});
+
+  function testParseMoveAbort() {
+    const withReason = parseMoveAbort("Move abort in 0x1::Coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins");
+    assert(withReason !== null && withReason.moduleName === "Coin" && withReason.code.equals(0x10006));
+    const hexOnly = parseMoveAbort("Move abort in 0x0000000000000000000000000000000000000000000000000000000000000001::Coin: 0x6");
+    assert(hexOnly !== null && hexOnly.moduleAddress.toShortString() === "0x1" && hexOnly.code.equals(6));
+    const decimal = parseMoveAbort("Move abort: code 65542 at 0x1::Coin");
+    assert(decimal !== null && decimal.code.equals(65542));
+    // u64 codes above 2^53 are kept exactly
+    const large = parseMoveAbort("Move abort in 0x1::Coin: 0xfffffffffffffffe");
+    assert(large !== null && large.code.equals(bigInt("18446744073709551614")));
+    assert(parseMoveAbort("Out of gas") === null);
+    console.log("Passed: parse Move abort");
+  }
+  testParseMoveAbort();
+
+  function testTransactionError() {
+    const abortError = getTransactionError(failedTxn("Move abort in 0x1::Coin: 0x10006"), repo);
+    assert(abortError instanceof MoveAbortError);
+    assert((abortError as MoveAbortError).constantName === "EINSUFFICIENT_BALANCE");
+    const maxError = getTransactionError(failedTxn("Move abort: code 18446744073709551615 at 0x1::Coin"), repo);
+    assert(maxError instanceof MoveAbortError && maxError.constantName === "EMAX");
+    // codes are registered per repo
+    const noRepoError = getTransactionError(failedTxn("Move abort in 0x1::Coin: 0x10006"));
+    assert(noRepoError instanceof MoveAbortError && noRepoError.constantName === null);
+    const unknownError = getTransactionError(failedTxn("Move abort in 0x1234::Pool: 0x1"), repo);
+    assert(unknownError instanceof MoveAbortError && unknownError.constantName === null);
+    const otherError = getTransactionError(failedTxn("Out of gas"));
+    assert(otherError instanceof TransactionFailedError && !(otherError instanceof MoveAbortError));
+    console.log("Passed: transaction errors");
+  }
+  testTransactionError();
+}
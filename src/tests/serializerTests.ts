@@ -0,0 +1,110 @@
+import { HexString } from "aptos";
+import bigInt from "big-integer";
+import { AptosParserRepo, AptosVectorU8, FieldDeclType, parseStructProto, serializeStructProto, TypeParamDeclType } from "../parserRepo";
+import { parseTypeTagOrThrow, TypeTag } from "../typeTag";
+import { assert } from "../utils";
+
+class TestStruct {
+  static moduleAddress = new HexString("0x1234");
+  static moduleName = "TestModule";
+  static structName = "TestStruct";
+  static typeParameters: TypeParamDeclType[] = [
+    {name: "T", isPhantom: false},
+  ];
+  static fields: FieldDeclType[] = [
+    {name: "name", typeTag: parseTypeTagOrThrow("0x1::ASCII::String")},
+    {name: "age", typeTag: parseTypeTagOrThrow("u8")},
+    {name: "balance", typeTag: parseTypeTagOrThrow("u64")},
+    {name: "owner", typeTag: parseTypeTagOrThrow("address")},
+    {name: "data", typeTag: parseTypeTagOrThrow("vector<u8>")},
+    {name: "values", typeTag: parseTypeTagOrThrow("vector<$tv0>")},
+    {name: "flag", typeTag: parseTypeTagOrThrow("bool")},
+  ];
+
+  name: string;
+  age: number;
+  balance: bigInt.BigInteger;
+  owner: HexString;
+  data: AptosVectorU8;
+  values: any[];
+  flag: boolean;
+
+  constructor(proto: any, public typeTag: TypeTag) {
+    this.name = proto['name'];
+    this.age = proto['age'];
+    this.balance = proto['balance'];
+    this.owner = proto['owner'];
+    this.data = proto['data'];
+    this.values = proto['values'];
+    this.flag = proto['flag'];
+  }
+
+  static TestStructParser(data: any, typeTag: TypeTag, repo: AptosParserRepo): TestStruct {
+    const proto = parseStructProto(data, typeTag, repo, TestStruct);
+    return new TestStruct(proto, typeTag);
+  }
+
+  static TestStructSerializer(value: any, typeTag: TypeTag, repo: AptosParserRepo): any {
+    return serializeStructProto(value, typeTag, repo, TestStruct);
+  }
+}
+
+export function test() {
+  const repo = new AptosParserRepo();
+  repo.addParser("0x1234::TestModule::TestStruct", TestStruct.TestStructParser);
+  repo.addSerializer("0x1234::TestModule::TestStruct", TestStruct.TestStructSerializer);
+  repo.addDefaultParsers();
+  repo.addDefaultSerializers();
+
+  function testRoundTrip() {
+    const typeTag = parseTypeTagOrThrow("0x1234::TestModule::TestStruct<u128>");
+    const data = {
+      name: "hippo",
+      age: 3,
+      balance: "18446744073709551615",
+      owner: "0x1",
+      data: "0x01ff",
+      values: ["1", "340282366920938463463374607431768211455"],
+      flag: true,
+    };
+    const parsed = repo.parse(data, typeTag) as TestStruct;
+    assert(parsed.balance.equals(bigInt("18446744073709551615")));
+    assert(parsed.values[1].equals(bigInt("340282366920938463463374607431768211455")));
+    const serialized = repo.serialize(parsed, typeTag);
+    assert(JSON.stringify(serialized) === JSON.stringify(data), JSON.stringify(serialized));
+    console.log("Passed: serializer round trip");
+  }
+  testRoundTrip();
+
+  function testRejectsWrongValue() {
+    let threw = false;
+    try {
+      repo.serialize(5, parseTypeTagOrThrow("u64"));
+    }
+    catch(e) {
+      threw = true;
+    }
+    assert(threw, "U64Serializer should reject number");
+    console.log("Passed: serializer rejects wrong value");
+  }
+  testRejectsWrongValue();
+
+  function testRejectsWrongStruct() {
+    const value = repo.parse({
+      name: "hippo", age: 3, balance: "1", owner: "0x1", data: "0x", values: [], flag: false,
+    }, parseTypeTagOrThrow("0x1234::TestModule::TestStruct<u64>"));
+    // same struct name under another address or module
+    for(const wrongTag of ["0x5678::TestModule::TestStruct<u64>", "0x1234::OtherModule::TestStruct<u64>"]) {
+      let threw = false;
+      try {
+        serializeStructProto(value, parseTypeTagOrThrow(wrongTag), repo, TestStruct);
+      }
+      catch(e) {
+        threw = true;
+      }
+      assert(threw, `serializeStructProto should reject ${wrongTag}`);
+    }
+    console.log("Passed: serializer rejects wrong struct");
+  }
+  testRejectsWrongStruct();
+}
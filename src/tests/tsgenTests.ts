@@ -0,0 +1,76 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import ts from "typescript";
+import { AptosTsgen } from "../aptosTsgen";
+import { assert } from "../utils";
+
+// run from dist/tests
+const REPO_ROOT = path.resolve(__dirname, "../..");
+const FIXTURE_DIR = path.join(REPO_ROOT, "src/tests/fixtures/tsgen");
+
+/*
+Type-checks the generated package against the built runtime, the way a project using it would compile it
+*/
+function typeCheck(outputDir: string): string[] {
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2016,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    strict: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    noEmit: true,
+    baseUrl: outputDir,
+    paths: {
+      "@manahippo/aptos-tsgen": [path.join(REPO_ROOT, "dist/index.d.ts")],
+      "*": [path.join(REPO_ROOT, "node_modules/*"), path.join(REPO_ROOT, "node_modules/@types/*")],
+    },
+    typeRoots: [path.join(REPO_ROOT, "node_modules/@types")],
+  };
+  const program = ts.createProgram(ts.sys.readDirectory(outputDir, [".ts"]), options);
+  return ts.getPreEmitDiagnostics(program).map(d => {
+    const message = ts.flattenDiagnosticMessageText(d.messageText, "\n");
+    if (!d.file || d.start === undefined) {
+      return message;
+    }
+    const { line } = d.file.getLineAndCharacterOfPosition(d.start);
+    return `${path.relative(outputDir, d.file.fileName)}:${line + 1}: ${message}`;
+  });
+}
+
+export function test() {
+  const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "aptos-tsgen-"));
+  try {
+    new AptosTsgen([], outputDir, [FIXTURE_DIR], { bcsPayload: true }).generate();
+    const read = (file: string) => fs.readFileSync(path.join(outputDir, file), "utf-8");
+    const pool = read("X0x1234/Pool.ts");
+
+    // generic structs
+    assert(pool.includes("export class Pool<T0 = any, T1 = any> {"));
+    assert(pool.includes("  x: X0x1.Coin.Coin<T0>;"));
+    assert(pool.includes("  pair: Pair<bigInt.BigInteger, T1>;"));
+    assert(pool.includes("): Promise<Pool<T0, T1>> {"));
+    // arguments typed by a type parameter are serialized by the concrete type
+    assert(pool.includes("  value: T0,"));
+    assert(pool.includes('serializeScriptFunctionArgument(value, substituteTypeParams(parseTypeTagOrThrow("$tv0"), typeParams))'));
+    assert(pool.includes("      flags.map(boolArray=>boolArray),"));
+    // one signer parameter per signer, in declaration order
+    assert(/export async function escrow\(\n  client: AptosClient,\n  buyer: AptosAccount \| TxSigner,\n  seller: AptosAccount \| TxSigner,\n/.test(pool));
+    assert(pool.includes("  return sendAndWaitMultiAgent(\n    client,\n    [buyer, seller],"));
+    // the repo is optional, without it the abilities of struct type arguments are unknown
+    assert(pool.includes("typeParamDecls, typeParams, options?.repo ?? null);"));
+    assert(/export function build_payload_deposit_generic<T0 = any>\([^)]*\n  typeParams: TypeTag\[\],\n  repo\?: AptosParserRepo,\n\) \{/.test(pool));
+    assert(/export async function simulate_escrow\(\n  client: AptosClient,\n  repo: AptosParserRepo,\n  buyer: AptosAccount \| TxSigner,\n  seller: AptosAccount \| TxSigner,\n/.test(pool));
+    assert(pool.includes("  return simulateMultiAgent(\n    client,\n    repo,\n    [buyer, seller],"));
+    assert(pool.includes("  repo.addErrorCodes(moduleAddress, moduleName, errorCodes);\n}"));
+    assert(read("repo.ts").includes("X0x1234_Pool.loadParsers(repo);"));
+
+    const errors = typeCheck(outputDir);
+    assert(errors.length === 0, `generated code does not compile:\n${errors.join("\n")}`);
+    console.log("Passed: generated package compiles");
+  }
+  finally {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,269 @@
+import { AptosAccount, HexString, Types } from "aptos";
+import bigInt from "big-integer";
+import { FakeAptosClient } from "../fakeAptosClient";
+import { MoveAbortError } from "../moveAbort";
+import { AptosParserRepo } from "../parserRepo";
+import { ExternalSigner, parseSimulationResult, sendAndWait, sendAndWaitMultiAgent, SequenceNumberManager, simulate, simulateMultiAgent, TransactionTimeoutError } from "../txSender";
+import { getTypeTagFullname, normalizeAddressString } from "../typeTag";
+import { assert } from "../utils";
+
+function makeRepo() {
+  const repo = new AptosParserRepo();
+  repo.addDefaultParsers();
+  repo.addDefaultSerializers();
+  return repo;
+}
+
+export async function test() {
+  async function testMultiAgent() {
+    const client = new FakeAptosClient();
+    const [buyer, seller, agent] = [new AptosAccount(), new AptosAccount(), new AptosAccount()];
+    const signingOrder: string[] = [];
+    const externalSeller = new ExternalSigner(seller.address(), seller.pubKey(), async (message, address) => {
+      signingOrder.push(address.hex());
+      return seller.signHexString(message);
+    });
+    await sendAndWaitMultiAgent(client, [buyer, externalSeller, agent], "0x1234::Pool::escrow", [], ["5"]);
+
+    const { signature, ...txnRequest } = client.submittedTransactions[0];
+    assert(txnRequest.sender === buyer.address().hex());
+    const multiAgent = signature as Types.MultiAgentSignature;
+    const sender = multiAgent.sender as Types.Ed25519Signature;
+    const secondarySigners = multiAgent.secondary_signers as Types.Ed25519Signature[];
+    assert(multiAgent.type === "multi_agent_signature");
+    assert(sender.public_key === buyer.pubKey().hex());
+    // secondary signers keep the order of the accounts, which is the order of the function's signer parameters
+    const secondaries = [seller, agent];
+    assert(multiAgent.secondary_signer_addresses.join() === secondaries.map(a => a.address().hex()).join());
+    assert(secondarySigners.map(s => s.public_key).join() === secondaries.map(a => a.pubKey().hex()).join());
+    assert(signingOrder.join() === seller.address().hex());
+
+    // everyone signs the multi-agent message, which includes the secondary signer addresses
+    const message = await client.createSigningMessage({ ...txnRequest, secondary_signers: multiAgent.secondary_signer_addresses });
+    assert(sender.signature === buyer.signHexString(message).hex());
+    secondaries.forEach((account, i) => {
+      assert(secondarySigners[i].signature === account.signHexString(message).hex());
+    });
+
+    let threw = false;
+    try {
+      await sendAndWaitMultiAgent(client, [buyer], "0x1234::Pool::escrow", [], ["5"]);
+    }
+    catch(e) {
+      threw = true;
+    }
+    assert(threw, "multi-agent transactions need a secondary signer");
+    console.log("Passed: multi-agent signatures");
+  }
+  await testMultiAgent();
+
+  function testParseSimulationResult() {
+    const repo = makeRepo();
+    repo.addErrorCodes(new HexString("0x1234"), "Pool", {"1": "SOME_ERROR"});
+    const owner = new HexString("0x5");
+    const succeeded = parseSimulationResult(repo, {
+      success: true,
+      vm_status: "Executed successfully",
+      gas_used: "18446744073709551615",
+      changes: [
+        { type: "write_resource", address: owner.hex(), state_key_hash: "0x", data: { type: "0x1234::Pool::Unparsed", data: { value: "1" } } },
+        { type: "delete_resource", address: owner.hex(), state_key_hash: "0x", resource: "0x1234::Pool::Gone" },
+      ],
+      events: [{ key: "0x0", sequence_number: "3", type: "u64", data: "42" }],
+    } as any as Types.UserTransaction);
+    assert(succeeded.success && succeeded.error === null);
+    assert(succeeded.gasUsed.equals(bigInt("18446744073709551615")));
+    const [write, del] = succeeded.changes;
+    // structs without a parser come back as raw data
+    assert(write.address?.toShortString() === "0x5" && getTypeTagFullname(write.typeTag!) === "0x1234::Pool::Unparsed");
+    assert(write.value.value === "1");
+    assert(del.type === "delete_resource" && del.value === null && getTypeTagFullname(del.typeTag!) === "0x1234::Pool::Gone");
+    assert(succeeded.events[0].sequenceNumber === 3 && succeeded.events[0].data.equals(bigInt(42)));
+
+    const aborted = parseSimulationResult(repo, {
+      success: false,
+      vm_status: "Move abort in 0x1234::Pool: 0x1",
+      gas_used: "7",
+      changes: [],
+      events: [],
+    } as any as Types.UserTransaction);
+    assert(!aborted.success && aborted.gasUsed.equals(7));
+    assert(aborted.error instanceof MoveAbortError && aborted.error.constantName === "SOME_ERROR");
+    console.log("Passed: parse simulation result");
+  }
+  testParseSimulationResult();
+
+  async function testSimulate() {
+    const client = new FakeAptosClient();
+    const repo = makeRepo();
+    const [account, other] = [new AptosAccount(), new AptosAccount()];
+    client.scriptTransaction("0x1234::Pool::register", {
+      gasUsed: 12,
+      events: [{ address: account.address(), eventHandleStruct: "0x1234::Pool::Events", fieldName: "registered", type: "u64", data: "1" }],
+    });
+    const result = await simulate(client, repo, account, "0x1234::Pool::register", [], []);
+    assert(result.success && result.gasUsed.equals(12) && result.events[0].data.equals(bigInt(1)));
+    // nothing is committed, and the scripted outcome is left for the real submission
+    assert(client.submittedTransactions.length === 0 && client.ledgerVersion === 0);
+    assert((await client.getAccount(account.address())).sequence_number === "0");
+    assert(client.transactionScripts["0x1234::Pool::register"].length === 1);
+
+    client.scriptTransaction("0x1234::Pool::escrow", { success: false, vmStatus: "Move abort in 0x1234::Pool: 0x2" });
+    const multiAgent = await simulateMultiAgent(client, repo, [account, other], "0x1234::Pool::escrow", [], []);
+    assert(!multiAgent.success && multiAgent.error instanceof MoveAbortError);
+    const signature = multiAgent.txn.signature as Types.MultiAgentSignature;
+    assert(signature.secondary_signer_addresses[0] === other.address().hex());
+    console.log("Passed: simulate");
+  }
+  await testSimulate();
+
+  async function testForeignAccount() {
+    const client = new FakeAptosClient();
+    const account = new AptosAccount();
+    // an AptosAccount from another copy of the aptos package fails instanceof
+    const foreign = {
+      address: () => account.address(),
+      pubKey: () => account.pubKey(),
+      signHexString: (message: HexString) => account.signHexString(message),
+    } as any as AptosAccount;
+    await sendAndWait(client, foreign, "0x1234::Pool::register", [], []);
+    const signature = client.submittedTransactions[0].signature as Types.Ed25519Signature;
+    assert(signature.public_key === account.pubKey().hex());
+    console.log("Passed: accounts from another aptos package");
+  }
+  await testForeignAccount();
+
+  async function testTxOptions() {
+    const client = new FakeAptosClient();
+    const account = new AptosAccount();
+    client.accountSequenceNumbers[normalizeAddressString(account.address())] = 7;
+    const before = Math.floor(Date.now() / 1000);
+    await sendAndWait(client, account, "0x1234::Pool::register", [], [], {
+      maxGasAmount: 2000,
+      gasUnitPrice: 3,
+      expirationOffsetSecs: 30,
+      sequenceNumber: 7,
+    });
+    const submitted = client.submittedTransactions[0];
+    assert(submitted.max_gas_amount === "2000" && submitted.gas_unit_price === "3" && submitted.sequence_number === "7");
+    const expiration = parseInt(submitted.expiration_timestamp_secs);
+    assert(expiration >= before + 30 && expiration <= Math.floor(Date.now() / 1000) + 30);
+    console.log("Passed: transaction request options");
+  }
+  await testTxOptions();
+
+  async function testWaitOptions() {
+    const client = new FakeAptosClient();
+    const account = new AptosAccount();
+    // committed within the timeout
+    client.scriptTransaction("0x1234::Pool::register", { pendingPolls: 1 });
+    const committed = await sendAndWait(client, account, "0x1234::Pool::register", [], [], { waitTimeoutMs: 5000 });
+    assert(committed.success && committed.sequence_number === "0");
+
+    client.scriptTransaction("0x1234::Pool::register", { success: false, vmStatus: "Move abort in 0x1234::Pool: 0x1" });
+    const failed = await sendAndWait(client, account, "0x1234::Pool::register", [], [], { throwOnFailure: false });
+    assert(!failed.success && failed.vm_status === "Move abort in 0x1234::Pool: 0x1");
+
+    // still pending when the timeout runs out
+    client.scriptTransaction("0x1234::Pool::register", { pendingPolls: 100 });
+    let error: any = null;
+    try {
+      await sendAndWait(client, account, "0x1234::Pool::register", [], [], { waitTimeoutMs: 50 });
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TransactionTimeoutError && error.waitTimeoutMs === 50);
+    console.log("Passed: transaction wait options");
+  }
+  await testWaitOptions();
+
+  async function testSequenceNumberManager() {
+    const client = new FakeAptosClient();
+    const account = new AptosAccount();
+    const manager = new SequenceNumberManager(client, account.address());
+    let syncs = 0;
+    const resync = manager.resync.bind(manager);
+    manager.resync = async () => {
+      syncs++;
+      return resync();
+    };
+    const send = (options = {}) => sendAndWait(client, account, "0x1234::Pool::register", [], [], { sequenceNumberManager: manager, ...options });
+    const lastSequenceNumber = () => client.submittedTransactions[client.submittedTransactions.length - 1].sequence_number;
+
+    // concurrent callers share one sync
+    let accountFetches = 0;
+    const getAccount = client.getAccount.bind(client);
+    client.getAccount = async (address) => {
+      accountFetches++;
+      return getAccount(address);
+    };
+    const concurrent = await Promise.all([manager.next(), manager.next(), manager.next()]);
+    assert(concurrent.join() === "0,1,2" && accountFetches === 1);
+    manager.invalidate();
+    syncs = 0;
+
+    // a failed transaction that got committed keeps its sequence number
+    client.scriptTransaction("0x1234::Pool::register", { success: false, vmStatus: "Move abort in 0x1234::Pool: 0x1" });
+    let error: any = null;
+    try {
+      await send();
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof MoveAbortError && lastSequenceNumber() === "0");
+    await send();
+    assert(lastSequenceNumber() === "1" && syncs === 1);
+
+    // another client used sequence numbers 2 and 3: the submission is rejected, and the manager resyncs
+    client.accountSequenceNumbers[normalizeAddressString(account.address())] = 4;
+    error = null;
+    try {
+      await send();
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error !== null && client.submittedTransactions.length === 2);
+    await send();
+    assert(lastSequenceNumber() === "4" && syncs === 2);
+
+    // still pending after the timeout: the node does not count it yet, but it may still be committed
+    client.scriptTransaction("0x1234::Pool::register", { pendingPolls: 100 });
+    error = null;
+    try {
+      await send({ waitTimeoutMs: 50 });
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TransactionTimeoutError && lastSequenceNumber() === "5");
+    assert((await client.getAccount(account.address())).sequence_number === "5");
+    // the node gets to it after all
+    client.pendingTransactions[error.txnHash] = 0;
+    await send();
+    assert(lastSequenceNumber() === "6" && syncs === 3, "in-flight sequence numbers should not be reused");
+
+    // 0 fails to submit while 1 is in flight: the node holds 1 until 0 is sent again
+    const gapClient = new FakeAptosClient();
+    const gapManager = new SequenceNumberManager(gapClient, account.address());
+    const submitTransaction = gapClient.submitTransaction.bind(gapClient);
+    let failures = 1;
+    gapClient.submitTransaction = async (request) => {
+      if (request.sequence_number === "0" && failures-- > 0) {
+        throw new Error("connection reset");
+      }
+      return submitTransaction(request);
+    };
+    const sendGap = () => sendAndWait(gapClient, account, "0x1234::Pool::register", [], [], { sequenceNumberManager: gapManager, waitTimeoutMs: 5000 });
+    const failed = sendGap().then(() => null, e => e);
+    const held = sendGap();
+    assert((await failed)?.message === "connection reset");
+    const refilled = await sendGap();
+    assert(refilled.sequence_number === "0" && (await held).sequence_number === "1");
+    assert((await gapClient.getAccount(account.address())).sequence_number === "2");
+    console.log("Passed: sequence number manager");
+  }
+  await testSequenceNumberManager();
+}
@@ -0,0 +1,73 @@
+import { HexString } from "aptos";
+import { FakeAptosClient } from "../fakeAptosClient";
+import { JsonAbilityType } from "../jsonTypes";
+import { checkTypeArguments, FieldDeclType, getTypeTagAbilities, TypeArgumentError, TypeParamDeclType } from "../parserRepo";
+import { AtomicTypeTag, parseTypeTagOrThrow, TypeTag } from "../typeTag";
+import { assert } from "../utils";
+import { COUNTER_TYPE, makeTestRepo } from "./fakeAptosClientTests";
+
+class Box {
+  static moduleAddress = new HexString("0x1234");
+  static moduleName = "TestModule";
+  static structName = "Box";
+  static abilities: JsonAbilityType[] = ["key", "store"];
+  static typeParameters: TypeParamDeclType[] = [
+    {name: "T", isPhantom: false, constraints: ["store"]},
+  ];
+  static fields: FieldDeclType[] = [
+    {name: "item", typeTag: parseTypeTagOrThrow("$tv0")},
+  ];
+
+  constructor(proto: any, public typeTag: TypeTag) {
+  }
+}
+
+export async function test() {
+  const client = new FakeAptosClient();
+  const repo = makeTestRepo();
+  repo.addStructInfo(Box);
+  const owner = new HexString("0x0abc");
+
+  function testAbilities() {
+    const abilities = (type: string) => getTypeTagAbilities(parseTypeTagOrThrow(type), repo)?.join();
+    assert(abilities("0x1234::TestModule::Box<vector<u8>>") === "key,store");
+    assert(abilities(`0x1234::TestModule::Box<${COUNTER_TYPE}>`) === "", "Counter has no store");
+    assert(abilities("vector<signer>") === "drop");
+    assert(abilities("0x1234::TestModule::Box<0x1::Unknown::T>") === undefined);
+    console.log("Passed: type argument abilities");
+  }
+  testAbilities();
+
+  async function testChecks() {
+    let error: any = null;
+    try {
+      await repo.loadResource(client, owner, Box, [AtomicTypeTag.Signer]);
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TypeArgumentError && error.typeArg === AtomicTypeTag.Signer && error.missingAbilities.join() === "store");
+
+    error = null;
+    try {
+      checkTypeArguments("0x1234::TestModule::f", Box.typeParameters, [parseTypeTagOrThrow(COUNTER_TYPE)], repo);
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TypeArgumentError && error.missingAbilities.join() === "store");
+
+    error = null;
+    try {
+      checkTypeArguments("0x1234::TestModule::f", Box.typeParameters, [], repo);
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TypeArgumentError && error.typeArg === null);
+    // structs without a registered class have unknown abilities
+    checkTypeArguments("0x1234::TestModule::f", Box.typeParameters, [parseTypeTagOrThrow("0x1::Unknown::T")], repo);
+    console.log("Passed: type argument checks");
+  }
+  await testChecks();
+}
@@ -0,0 +1,51 @@
+import { getTypeTagFullname, parseTypeTagOrThrow, TypeTagParseError } from "../typeTag";
+import { filterTypeTags, matchTypeTag, parseTypeTagPattern } from "../typeTagPattern";
+import { assert } from "../utils";
+
+export function test() {
+  function matchTest() {
+    const coinStore = parseTypeTagOrThrow('0x1::Coin::CoinStore<0x1::AptosCoin::AptosCoin>');
+    const matches = (pattern: string) => {
+      const bindings = matchTypeTag(pattern, coinStore);
+      return bindings === null ? null : bindings.map(getTypeTagFullname).join();
+    };
+    assert(matches('0x1::Coin::CoinStore<_>') === '0x1::AptosCoin::AptosCoin');
+    assert(matches('0x1::Coin::CoinStore<0x1::*::*>') === '');
+    assert(matches('0x01::*::CoinStore<*::AptosCoin::_>') === null, "'_' is not a name wildcard");
+    assert(matches('*::*::*<*::*::AptosCoin>') === '');
+    assert(matches('_') === '0x1::Coin::CoinStore<0x1::AptosCoin::AptosCoin>');
+    assert(matches('0x1::Coin::CoinStore') === null, "type parameters should not be optional");
+    assert(matches('0x1::Coin::CoinStore<0x2::*::*>') === null);
+    assert(matches('0x1::Coin::CoinInfo<_>') === null);
+
+    const table = parseTypeTagOrThrow('0x1::Table::Table<address,vector<u64>>');
+    assert(matchTypeTag('0x1::Table::Table<_,vector<_>>', table)?.map(getTypeTagFullname).join() === 'address,u64');
+    assert(matchTypeTag('0x1::Table::Table<_,vector<u8>>', table) === null);
+    assert(matchTypeTag('&mut _', parseTypeTagOrThrow('&mut signer'))?.join() === 'signer');
+    assert(matchTypeTag('&_', parseTypeTagOrThrow('&mut signer')) === null);
+    console.log('Passed: type tag pattern matching');
+  }
+  matchTest();
+
+  function filterTest() {
+    const tags = [
+      '0x1::Coin::CoinStore<0x1::AptosCoin::AptosCoin>',
+      '0x1::Account::Account',
+      '0x1::Coin::CoinStore<0xabc::Token::T>',
+    ].map(parseTypeTagOrThrow);
+    const coinStores = filterTypeTags(parseTypeTagPattern('0x1::Coin::CoinStore<_>'), tags);
+    assert(coinStores.length === 2 && coinStores[1] === tags[2]);
+    assert(filterTypeTags('0x1::Account::*', tags).length === 1);
+
+    let error: any = null;
+    try {
+      parseTypeTagPattern('0x1::Coin::*<_,>');
+    }
+    catch(e) {
+      error = e;
+    }
+    assert(error instanceof TypeTagParseError && error.offset === 15 && error.expected === 'a type pattern');
+    console.log('Passed: type tag pattern filtering');
+  }
+  filterTest();
+}
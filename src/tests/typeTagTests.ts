@@ -1,4 +1,4 @@
-import { AtomicTypeTag, getTypeTagFullname, parseTypeTag } from "../typeTag"
+import { AtomicTypeTag, compareTypeTags, getTypeTagFullname, hashTypeTag, normalizeAddressString, parseAtomicTag, parseTypeTag, parseTypeTagOrThrow, ReferenceTag, StructTag, TypeTagParseError, typeTagEquals } from "../typeTag"
 import { assert, print } from "../utils";
 
 export function test() {
@@ -61,5 +61,84 @@ export function test() {
   genericTest('vector<address>');
   genericTest('vector<u128>');
   genericTest('vector<0x1::M::s>');
-  genericTest('vector<0x1::M::s,u8,0x2::MM::TT,0x2::MM::TT<u8,address,0x2::M:T>,address,vector<0x1::M::S<u8>>>');
-}
\ No newline at end of file
+  genericTest('vector<0x1::M::S<0x1::M::s,u8,0x2::MM::TT,0x2::MM::TT<u8,address,0x2::M::T>,address,vector<0x1::M::S<u8>>>>');
+
+  function testNormalization() {
+    const long = '0x0000000000000000000000000000000000000000000000000000000000000001::Coin::Coin<0x00AB::M::S>';
+    const short = parseTypeTagOrThrow('0x1::Coin::Coin<0xab::M::S>');
+    assert(getTypeTagFullname(parseTypeTagOrThrow(long)) === '0x1::Coin::Coin<0xab::M::S>');
+    assert(typeTagEquals(parseTypeTagOrThrow(long), short));
+    assert(hashTypeTag(parseTypeTagOrThrow(long)) === hashTypeTag(short));
+    assert(!typeTagEquals(short, parseTypeTagOrThrow('0x1::Coin::Coin<0xab::M::T>')));
+    assert(normalizeAddressString('0x000') === '0x0');
+
+    const sorted = ['0x2::A::A', 'vector<u8>', '0x10::A::A', 'u64', '0x2::A::A<u8>', 'bool']
+      .map(parseTypeTagOrThrow)
+      .sort(compareTypeTags)
+      .map(getTypeTagFullname);
+    assert(sorted.join(' ') === 'bool u64 vector<u8> 0x2::A::A 0x2::A::A<u8> 0x10::A::A', sorted.join(' '));
+    console.log('Passed: address normalization');
+  }
+  testNormalization();
+
+  function testGrammar() {
+    const spaced = parseTypeTagOrThrow(' 0x1::Coin::Coin< 0x1::A::B ,\n vector< u256 > > ');
+    assert(getTypeTagFullname(spaced) === '0x1::Coin::Coin<0x1::A::B,vector<u256>>');
+    const ref = parseTypeTagOrThrow('&mut 0x1::M::S<$tv0>');
+    assert(ref instanceof ReferenceTag && ref.mutable && getTypeTagFullname(ref) === '&mut 0x1::M::S<$tv0>');
+    assert(parseTypeTagOrThrow('&signer') instanceof ReferenceTag);
+    for (const width of ['u16', 'u32', 'u256']) {
+      assert(parseTypeTagOrThrow(width) === width);
+    }
+    // identifiers that start with the name of an atomic type
+    const tricky = parseTypeTagOrThrow('0x1::u8::u8_thing<u64>') as StructTag;
+    assert(tricky.module === 'u8' && tricky.name === 'u8_thing' && tricky.typeParams[0] === AtomicTypeTag.U64);
+    assert(parseAtomicTag('u8_thing')[0] === null);
+    const [tag, remaining] = parseTypeTag('u64, vector<u8>>');
+    assert(tag === AtomicTypeTag.U64 && remaining === ', vector<u8>>');
+    const badTypes = ['u8_thing', 'vector<u8', '0x1::M', 'Coin<u8>', '0x1::M::S<u8,>', '$tv', 'vector<u8,u64>', '0x2::M:T'];
+    for (const bad of badTypes) {
+      let threw = false;
+      try {
+        parseTypeTagOrThrow(bad);
+      }
+      catch(e) {
+        threw = e instanceof TypeTagParseError && e.input === bad;
+      }
+      assert(threw, `${bad} should not parse`);
+    }
+    console.log('Passed: type grammar');
+  }
+  testGrammar();
+
+  function testParseErrors() {
+    function parseError(input: string): TypeTagParseError {
+      try {
+        parseTypeTagOrThrow(input);
+      }
+      catch(e) {
+        if (e instanceof TypeTagParseError) {
+          return e;
+        }
+        throw e;
+      }
+      throw new Error(`${input} should not parse`);
+    }
+    const trailingComma = parseError('0x1::Coin::Coin<u8,>');
+    assert(trailingComma.offset === 19 && trailingComma.expected === 'a type' && trailingComma.found === '>');
+    assert(trailingComma.excerpt === '0x1::Coin::Coin<u8,>\n                   ^', trailingComma.excerpt);
+
+    const unclosed = parseError('vector<u8');
+    assert(unclosed.offset === 9 && unclosed.expected === "'>'" && unclosed.found === null);
+    assert(parseError('0x1::M:S').expected === "'::'");
+    assert(parseError('u64 u8').found === 'u8');
+
+    // long inputs are cut around the error
+    const long = parseError(`0x1::M::S<${'0x1::M::S,'.repeat(20)}0x1::M::S,,>`);
+    assert(long.excerpt.startsWith('...') && long.excerpt.endsWith('^'));
+    const [line, caret] = long.excerpt.split('\n');
+    assert(line[caret.length - 1] === ',', long.excerpt);
+    console.log('Passed: type tag parse errors');
+  }
+  testParseErrors();
+}
@@ -1,18 +1,609 @@
-import { AptosClient, AptosAccount, Types } from "aptos";
+import { AptosClient, AptosAccount, Types, HexString, TxnBuilderTypes, TransactionBuilder, BCS, raiseForStatus } from "aptos";
+import { sleep } from "aptos/dist/util";
+import { DeleteResource, WriteResource } from "aptos/dist/api/data-contracts";
+import bigInt from "big-integer";
+import { typeTagToBCS } from "./bcs";
+import { getTransactionError, TransactionFailedError } from "./moveAbort";
+import { AptosParserRepo, AptosVectorU8, numbersOrStringToHexString } from "./parserRepo";
+import { addressEquals, AtomicTypeTag, getTypeTagFullname, parseTypeTagOrThrow, StructTag, TypeParamIdx, TypeTag, VectorTag } from "./typeTag";
+
+/*
+Options accepted by every transaction sender. Anything left undefined falls back to AptosClient's defaults
+*/
+export type TxOptions = {
+  maxGasAmount?: number;
+  gasUnitPrice?: number;
+  // seconds from now until the transaction expires
+  expirationOffsetSecs?: number;
+  // use this instead of fetching the account's current sequence number
+  sequenceNumber?: number | string;
+  // stop waiting for the transaction to be committed after this many milliseconds
+  waitTimeoutMs?: number;
+  // throw MoveAbortError/TransactionFailedError for failed transactions instead of returning them, defaults to true
+  throwOnFailure?: boolean;
+  // hands out the sender's sequence numbers locally, so that concurrent transactions do not collide
+  sequenceNumberManager?: SequenceNumberManager;
+  // applied before the transaction is sent, then confirmed or rolled back depending on its outcome
+  optimisticUpdate?: OptimisticUpdate;
+  // lets generated senders check the abilities of struct type arguments, and names the error constants of Move aborts
+  repo?: AptosParserRepo;
+}
+
+/*
+A predicted effect of a transaction, such as AptosResourceCache.optimisticUpdate
+*/
+export interface OptimisticUpdate {
+  apply(): void;
+  // the transaction was committed successfully
+  confirm(txn: Types.UserTransaction): void;
+  // the transaction failed, expired, or could not be sent
+  rollback(): void;
+  // the node accepted the transaction but its outcome is unknown (e.g. waiting for it timed out): it may still be
+  // committed until it expires
+  outcomeUnknown(): void;
+}
+
+/*
+Applies options.optimisticUpdate around send, and settles it with the outcome of the transaction. send calls
+onSubmitted once the node accepted the transaction: errors after that (other than a failed transaction) leave the
+outcome unknown, and do not roll the update back
+*/
+async function withOptimisticUpdate(
+  options: TxOptions | undefined,
+  send: (onSubmitted: () => void) => Promise<Types.UserTransaction>,
+): Promise<Types.UserTransaction> {
+  const update = options?.optimisticUpdate;
+  if (!update) {
+    return send(() => {});
+  }
+  update.apply();
+  let submitted = false;
+  let txn: Types.UserTransaction;
+  try {
+    txn = await send(() => {
+      submitted = true;
+    });
+  }
+  catch(e) {
+    if (submitted && !(e instanceof TransactionFailedError)) {
+      update.outcomeUnknown();
+    }
+    else {
+      update.rollback();
+    }
+    throw e;
+  }
+  if (txn.success) {
+    update.confirm(txn);
+  }
+  else {
+    update.rollback();
+  }
+  return txn;
+}
+
+/*
+Hands out sequence numbers for one account locally.
+
+Transactions sent concurrently from the same account would otherwise all fetch the same sequence number from the node.
+The manager syncs with the chain on first use, and again after a transaction fails to submit or does not get committed.
+Transactions that were submitted but not seen committed (e.g. after a wait timeout) may still be committed until they
+expire, so their sequence numbers are skipped. Sequence numbers of transactions that failed to submit are handed out
+again, since the node holds every later transaction until the gap is filled.
+*/
+export class SequenceNumberManager {
+  private nextSequenceNumber: null | number;
+  private pendingSync: null | Promise<number>;
+  // sequence numbers of submitted transactions whose outcome is unknown, mapped to their expiration timestamp (seconds)
+  private inFlight: Map<number, number>;
+  constructor(
+    public client: AptosClient,
+    public address: HexString,
+  ) {
+    this.nextSequenceNumber = null;
+    this.pendingSync = null;
+    this.inFlight = new Map();
+  }
+
+  async next(): Promise<number> {
+    while (this.nextSequenceNumber === null) {
+      await this.resync();
+    }
+    while (this.inFlight.has(this.nextSequenceNumber)) {
+      this.nextSequenceNumber += 1;
+    }
+    const sequenceNumber = this.nextSequenceNumber;
+    this.nextSequenceNumber += 1;
+    return sequenceNumber;
+  }
+
+  /*
+  Fetches the current sequence number from the chain, and forgets the transactions in flight that can no longer take a
+  sequence number. Concurrent callers share the same request
+  */
+  async resync() {
+    if (!this.pendingSync) {
+      this.pendingSync = this.client.getAccount(this.address).then(account => parseInt(account.sequence_number));
+      try {
+        this.nextSequenceNumber = this.pruneInFlight(await this.pendingSync);
+      }
+      finally {
+        this.pendingSync = null;
+      }
+    }
+    else {
+      await this.pendingSync;
+    }
+  }
+
+  /*
+  Forgets the local sequence number, so that the next call to next() resyncs with the chain
+  */
+  invalidate() {
+    this.nextSequenceNumber = null;
+  }
+
+  /*
+  Called once the node accepted a transaction with sequenceNumber, which then stays in flight until it is committed or
+  expires
+  */
+  markSubmitted(sequenceNumber: number, expirationTimestampSecs: number) {
+    this.inFlight.set(sequenceNumber, expirationTimestampSecs);
+  }
+
+  /*
+  Called once the transaction with sequenceNumber is committed, successfully or not
+  */
+  markCommitted(sequenceNumber: number) {
+    this.inFlight.delete(sequenceNumber);
+  }
+
+  private pruneInFlight(onChainSequenceNumber: number): number {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [sequenceNumber, expirationTimestampSecs] of Array.from(this.inFlight.entries())) {
+      // committed (the chain moved past it) or expired
+      if (sequenceNumber < onChainSequenceNumber || expirationTimestampSecs < now) {
+        this.inFlight.delete(sequenceNumber);
+      }
+    }
+    return onChainSequenceNumber;
+  }
+}
+
+/*
+Runs send with a sequence number from options.sequenceNumberManager, if one is supplied. A transaction that got
+committed consumes its sequence number even if it failed, anything else (submission errors, timeouts) resyncs the manager.
+*/
+async function withManagedSequenceNumber<T>(
+  sender: HexString,
+  options: TxOptions | undefined,
+  send: (options?: TxOptions) => Promise<T>,
+): Promise<T> {
+  const manager = options?.sequenceNumberManager;
+  if (!manager || options?.sequenceNumber !== undefined) {
+    return send(options);
+  }
+  if (!addressEquals(manager.address, sender)) {
+    throw new Error(`SequenceNumberManager of ${manager.address.hex()} cannot be used to send from ${sender.hex()}`);
+  }
+  const sequenceNumber = await manager.next();
+  try {
+    const result = await send({ ...options, sequenceNumber });
+    manager.markCommitted(sequenceNumber);
+    return result;
+  }
+  catch(e) {
+    if (e instanceof TransactionFailedError) {
+      manager.markCommitted(sequenceNumber);
+    }
+    else {
+      manager.invalidate();
+    }
+    throw e;
+  }
+}
+
+/*
+Tells options.sequenceNumberManager that the node accepted a transaction from sender
+*/
+function markSubmitted(options: TxOptions | undefined, sender: HexString, sequenceNumber: number, expirationTimestampSecs: number) {
+  const manager = options?.sequenceNumberManager;
+  if (manager && addressEquals(manager.address, sender)) {
+    manager.markSubmitted(sequenceNumber, expirationTimestampSecs);
+  }
+}
+
+export class TransactionTimeoutError extends Error {
+  constructor(
+    public txnHash: string,
+    public waitTimeoutMs: number,
+  ) {
+    super(`Waiting for transaction ${txnHash} timed out after ${waitTimeoutMs}ms`);
+    this.name = "TransactionTimeoutError";
+  }
+}
+
+const WAIT_POLL_INTERVAL_MS = 1000;
+
+function getTransactionRequestOptions(options?: TxOptions): Partial<Types.UserTransactionRequest> {
+  const requestOptions: Partial<Types.UserTransactionRequest> = {};
+  if (!options) {
+    return requestOptions;
+  }
+  if (options.maxGasAmount !== undefined) {
+    requestOptions.max_gas_amount = options.maxGasAmount.toString();
+  }
+  if (options.gasUnitPrice !== undefined) {
+    requestOptions.gas_unit_price = options.gasUnitPrice.toString();
+  }
+  if (options.expirationOffsetSecs !== undefined) {
+    requestOptions.expiration_timestamp_secs = (Math.floor(Date.now() / 1000) + options.expirationOffsetSecs).toString();
+  }
+  if (options.sequenceNumber !== undefined) {
+    requestOptions.sequence_number = options.sequenceNumber.toString();
+  }
+  return requestOptions;
+}
+
+export async function generateTransactionRequest(
+  client: AptosClient,
+  sender: HexString,
+  payload: Types.TransactionPayload,
+  options?: TxOptions,
+): Promise<Types.UserTransactionRequest> {
+  return client.generateTransaction(sender, payload, getTransactionRequestOptions(options));
+}
+
+/*
+Anything that can sign transactions on behalf of an account: a local AptosAccount, a browser wallet, a hardware
+signer, a remote signing service...
+*/
+export interface TxSigner {
+  address(): HexString;
+  // ed25519 public key of the account
+  publicKey(): HexString;
+  // returns the ed25519 signature over the signing message bytes
+  signMessage(message: HexString): Promise<HexString>;
+}
+
+/*
+Signs with the private key of a local AptosAccount
+*/
+export class AptosAccountSigner implements TxSigner {
+  constructor(
+    public account: AptosAccount,
+  ) {
+  }
+  address(): HexString {
+    return this.account.address();
+  }
+  publicKey(): HexString {
+    return this.account.pubKey();
+  }
+  async signMessage(message: HexString): Promise<HexString> {
+    return this.account.signHexString(message);
+  }
+}
+
+export type ExternalSignFunc = (message: HexString, address: HexString) => Promise<HexString>;
+
+/*
+Delegates signing to code outside this process, such as a wallet extension or a signing service.
+Only the account's address and public key need to be known locally.
+*/
+export class ExternalSigner implements TxSigner {
+  constructor(
+    public signerAddress: HexString,
+    public signerPublicKey: HexString,
+    public signFunc: ExternalSignFunc,
+  ) {
+  }
+  address(): HexString {
+    return this.signerAddress;
+  }
+  publicKey(): HexString {
+    return this.signerPublicKey;
+  }
+  async signMessage(message: HexString): Promise<HexString> {
+    return this.signFunc(message, this.signerAddress);
+  }
+}
+
+/*
+Tells the two apart by shape rather than with instanceof, since the AptosAccount may come from another copy of the
+aptos package (e.g. the app's own, next to the one this package uses)
+*/
+export function toTxSigner(signer: AptosAccount | TxSigner): TxSigner {
+  if ('signMessage' in signer) {
+    return signer;
+  }
+  return new AptosAccountSigner(signer);
+}
+
+async function signEd25519(signer: TxSigner, message: HexString): Promise<Types.Ed25519Signature> {
+  const signature = await signer.signMessage(message);
+  return {
+    type: "ed25519_signature",
+    public_key: signer.publicKey().hex(),
+    signature: signature.hex(),
+  };
+}
+
+/*
+Signs a transaction request produced by generateTransactionRequest
+*/
+export async function signTransaction(
+  client: AptosClient,
+  signer: AptosAccount | TxSigner,
+  txnRequest: Types.UserTransactionRequest,
+): Promise<Types.SubmitTransactionRequest> {
+  const message = await client.createSigningMessage(txnRequest);
+  const signature = await signEd25519(toTxSigner(signer), new HexString(message));
+  return { signature, ...txnRequest };
+}
 
 export async function sendAndWait(
   client: AptosClient,
-  account: AptosAccount,
+  account: AptosAccount | TxSigner,
   funcname: string,
   typeArguments: string[],
-  args: any[]
+  args: any[],
+  options?: TxOptions,
 ): Promise<Types.UserTransaction> {
+  const signer = toTxSigner(account);
   const payload = buildPayload(funcname, typeArguments, args);
-  const txnRequest = await client.generateTransaction(account.address(), payload);
-  const signedTxn = await client.signTransaction(account, txnRequest);
+  return withOptimisticUpdate(options, (onSubmitted) => withManagedSequenceNumber(signer.address(), options, async (options) => {
+    const txnRequest = await generateTransactionRequest(client, signer.address(), payload, options);
+    const signedTxn = await signTransaction(client, signer, txnRequest);
+    return submitAndWait(client, signedTxn, options, onSubmitted);
+  }));
+}
+
+/*
+Sends a multi-agent transaction, for script functions that take more than one signer.
+
+accounts[0] is the sender, the rest are secondary signers in the order of the function's signer parameters.
+*/
+export async function sendAndWaitMultiAgent(
+  client: AptosClient,
+  accounts: (AptosAccount | TxSigner)[],
+  funcname: string,
+  typeArguments: string[],
+  args: any[],
+  options?: TxOptions,
+): Promise<Types.UserTransaction> {
+  if (accounts.length < 2) {
+    throw new Error(`Multi-agent transaction expects at least 2 accounts but received ${accounts.length}`);
+  }
+  const [sender, ...secondarySigners] = accounts.map(toTxSigner);
+  const payload = buildPayload(funcname, typeArguments, args);
+  return withOptimisticUpdate(options, (onSubmitted) => withManagedSequenceNumber(sender.address(), options, async (options) => {
+    const txnRequest = await generateTransactionRequest(client, sender.address(), payload, options);
+    const signedTxn = await signMultiAgentTransaction(client, sender, secondarySigners, txnRequest);
+    return submitAndWait(client, signedTxn, options, onSubmitted);
+  }));
+}
+
+/*
+Collects signatures from the sender and every secondary signer over the multi-agent signing message
+*/
+export async function signMultiAgentTransaction(
+  client: AptosClient,
+  sender: AptosAccount | TxSigner,
+  secondarySigners: (AptosAccount | TxSigner)[],
+  txnRequest: Types.UserTransactionRequest,
+): Promise<Types.SubmitTransactionRequest> {
+  const secondaryTxSigners = secondarySigners.map(toTxSigner);
+  const secondarySignerAddresses = secondaryTxSigners.map(s => s.address().hex());
+  const signingRequest: Types.UserCreateSigningMessageRequest = {
+    ...txnRequest,
+    secondary_signers: secondarySignerAddresses,
+  };
+  const message = new HexString(await client.createSigningMessage(signingRequest));
+  // signers are asked one at a time, so that wallets do not show several prompts at once
+  const senderSignature = await signEd25519(toTxSigner(sender), message);
+  const secondarySignatures: Types.Ed25519Signature[] = [];
+  for (const signer of secondaryTxSigners) {
+    secondarySignatures.push(await signEd25519(signer, message));
+  }
+  const signature: Types.MultiAgentSignature = {
+    type: "multi_agent_signature",
+    sender: senderSignature,
+    secondary_signer_addresses: secondarySignerAddresses,
+    secondary_signers: secondarySignatures,
+  };
+  return { signature, ...txnRequest };
+}
+
+export type SimulatedChange = {
+  // write_resource, delete_resource, write_table_item, etc.
+  type: string;
+  // owner and resource type, for resource changes
+  address: null | HexString;
+  typeTag: null | TypeTag;
+  // the parsed resource for write_resource, or the raw change for other types
+  value: any;
+}
+
+export type SimulatedEvent = {
+  key: string;
+  sequenceNumber: number;
+  typeTag: TypeTag;
+  data: any;
+}
+
+export type SimulationResult = {
+  success: boolean;
+  vmStatus: string;
+  // the error sendAndWait would have thrown, if the transaction is predicted to fail
+  error: null | TransactionFailedError;
+  gasUsed: bigInt.BigInteger;
+  changes: SimulatedChange[];
+  events: SimulatedEvent[];
+  txn: Types.UserTransaction;
+}
+
+/*
+Dry-runs a script function through the node's simulate endpoint. Nothing is committed.
+*/
+export async function simulate(
+  client: AptosClient,
+  repo: AptosParserRepo,
+  account: AptosAccount | TxSigner,
+  funcname: string,
+  typeArguments: string[],
+  args: any[],
+  options?: TxOptions,
+): Promise<SimulationResult> {
+  const signer = toTxSigner(account);
+  const payload = buildPayload(funcname, typeArguments, args);
+  const txnRequest = await generateTransactionRequest(client, signer.address(), payload, options);
+  const request: Types.SubmitTransactionRequest = { signature: getSimulationSignature(signer), ...txnRequest };
+  return simulateRequest(client, repo, request);
+}
+
+/*
+Multi-agent version of simulate. accounts[0] is the sender, the rest are secondary signers
+*/
+export async function simulateMultiAgent(
+  client: AptosClient,
+  repo: AptosParserRepo,
+  accounts: (AptosAccount | TxSigner)[],
+  funcname: string,
+  typeArguments: string[],
+  args: any[],
+  options?: TxOptions,
+): Promise<SimulationResult> {
+  if (accounts.length < 2) {
+    throw new Error(`Multi-agent transaction expects at least 2 accounts but received ${accounts.length}`);
+  }
+  const [sender, ...secondarySigners] = accounts.map(toTxSigner);
+  const payload = buildPayload(funcname, typeArguments, args);
+  const txnRequest = await generateTransactionRequest(client, sender.address(), payload, options);
+  const signature: Types.MultiAgentSignature = {
+    type: "multi_agent_signature",
+    sender: getSimulationSignature(sender),
+    secondary_signer_addresses: secondarySigners.map(s => s.address().hex()),
+    secondary_signers: secondarySigners.map(getSimulationSignature),
+  };
+  const request: Types.SubmitTransactionRequest = { signature, ...txnRequest };
+  return simulateRequest(client, repo, request);
+}
+
+/*
+The simulate endpoint rejects valid signatures, so no signer is ever asked to sign
+*/
+function getSimulationSignature(signer: TxSigner): Types.Ed25519Signature {
+  return {
+    type: "ed25519_signature",
+    public_key: signer.publicKey().hex(),
+    signature: HexString.fromUint8Array(new Uint8Array(64)).hex(),
+  };
+}
+
+async function simulateRequest(
+  client: AptosClient,
+  repo: AptosParserRepo,
+  request: Types.SubmitTransactionRequest,
+): Promise<SimulationResult> {
+  const response = await client.transactions.simulateTransaction(request);
+  raiseForStatus(200, response, request);
+  return parseSimulationResult(repo, response.data[0] as Types.UserTransaction);
+}
+
+function parseIfPossible(repo: AptosParserRepo, data: any, typeTag: TypeTag) {
+  // types without a registered parser are returned as raw data
+  if (!repo.getParserFromTypeTag(typeTag)) {
+    return data;
+  }
+  return repo.parse(data, typeTag);
+}
+
+export function parseSimulationResult(repo: AptosParserRepo, txn: Types.UserTransaction): SimulationResult {
+  const changes: SimulatedChange[] = txn.changes.map(change => {
+    if (change.type === 'write_resource') {
+      const write = change as WriteResource;
+      const typeTag = parseTypeTagOrThrow(write.data.type);
+      return {
+        type: change.type,
+        address: new HexString(write.address),
+        typeTag,
+        value: parseIfPossible(repo, write.data.data, typeTag),
+      };
+    }
+    else if (change.type === 'delete_resource') {
+      const del = change as DeleteResource;
+      return {
+        type: change.type,
+        address: new HexString(del.address),
+        typeTag: parseTypeTagOrThrow(del.resource),
+        value: null,
+      };
+    }
+    return { type: change.type, address: null, typeTag: null, value: change };
+  });
+  const events: SimulatedEvent[] = txn.events.map(e => {
+    const typeTag = parseTypeTagOrThrow(e.type);
+    return {
+      key: e.key,
+      sequenceNumber: parseInt(e.sequence_number),
+      typeTag,
+      data: parseIfPossible(repo, e.data, typeTag),
+    };
+  });
+  return {
+    success: txn.success,
+    vmStatus: txn.vm_status,
+    error: txn.success ? null : getTransactionError(txn, repo),
+    gasUsed: bigInt(txn.gas_used),
+    changes,
+    events,
+    txn,
+  };
+}
+
+async function submitAndWait(
+  client: AptosClient,
+  signedTxn: Types.SubmitTransactionRequest,
+  options: TxOptions | undefined,
+  onSubmitted: () => void,
+): Promise<Types.UserTransaction> {
   const txnResult = await client.submitTransaction(signedTxn);
-  await client.waitForTransaction(txnResult.hash);
-  const txDetails = (await client.getTransaction(txnResult.hash)) as Types.UserTransaction;
+  markSubmitted(options, new HexString(signedTxn.sender), parseInt(signedTxn.sequence_number), parseInt(signedTxn.expiration_timestamp_secs));
+  onSubmitted();
+  return waitForSuccess(client, txnResult.hash, options);
+}
+
+/*
+Same as AptosClient.waitForTransaction, but with a configurable timeout
+*/
+export async function waitForTransactionWithTimeout(client: AptosClient, txnHash: string, waitTimeoutMs: number) {
+  const startTime = Date.now();
+  while (await client.transactionPending(txnHash)) {
+    const elapsed = Date.now() - startTime;
+    if (elapsed >= waitTimeoutMs) {
+      throw new TransactionTimeoutError(txnHash, waitTimeoutMs);
+    }
+    await sleep(Math.min(WAIT_POLL_INTERVAL_MS, waitTimeoutMs - elapsed));
+  }
+}
+
+/*
+Waits for the transaction to be committed, and throws MoveAbortError/TransactionFailedError if it did not succeed
+(unless options.throwOnFailure is false)
+*/
+async function waitForSuccess(client: AptosClient, txnHash: string, options?: TxOptions): Promise<Types.UserTransaction> {
+  if (options?.waitTimeoutMs !== undefined) {
+    await waitForTransactionWithTimeout(client, txnHash, options.waitTimeoutMs);
+  }
+  else {
+    await client.waitForTransaction(txnHash);
+  }
+  const txDetails = (await client.getTransaction(txnHash)) as Types.UserTransaction;
+  const throwOnFailure = options?.throwOnFailure ?? true;
+  if (!txDetails.success && throwOnFailure) {
+    throw getTransactionError(txDetails, options?.repo ?? null);
+  }
   return txDetails;
 }
 
@@ -27,4 +618,150 @@ export function buildPayload(
     type_arguments: typeArguments,
     arguments: args,
   }
-}
\ No newline at end of file
+}
+
+/*
+BCS version of buildPayload. Arguments are the BCS-encoded bytes of each argument (see bcsSerializeMoveValue)
+*/
+export function buildPayloadBCS(
+  funcname: string,
+  typeArguments: TypeTag[],
+  args: Uint8Array[]
+): TxnBuilderTypes.TransactionPayloadScriptFunction {
+  const nameParts = funcname.split("::");
+  if (nameParts.length !== 3) {
+    throw new Error(`Expected function name in the form of address::module::name but received: ${funcname}`);
+  }
+  const [address, module, name] = nameParts;
+  const scriptFunction = new TxnBuilderTypes.ScriptFunction(
+    TxnBuilderTypes.ModuleId.fromStr(`${address}::${module}`),
+    new TxnBuilderTypes.Identifier(name),
+    typeArguments.map(typeTagToBCS),
+    args,
+  );
+  return new TxnBuilderTypes.TransactionPayloadScriptFunction(scriptFunction);
+}
+
+export type RawTransactionParams = {
+  maxGasAmount?: number;
+  gasUnitPrice?: number;
+  expirationTimestampSecs?: number;
+}
+
+/*
+Builds a RawTransaction entirely offline, so that it can be signed without talking to the node
+*/
+export function buildRawTransactionBCS(
+  sender: HexString,
+  sequenceNumber: number | string,
+  payload: TxnBuilderTypes.TransactionPayload,
+  chainId: number,
+  params?: RawTransactionParams,
+): TxnBuilderTypes.RawTransaction {
+  // same defaults as AptosClient.generateTransaction
+  const maxGasAmount = params?.maxGasAmount ?? 1000;
+  const gasUnitPrice = params?.gasUnitPrice ?? 1;
+  const expirationTimestampSecs = params?.expirationTimestampSecs ?? Math.floor(Date.now() / 1000) + 10;
+  return new TxnBuilderTypes.RawTransaction(
+    TxnBuilderTypes.AccountAddress.fromHex(sender),
+    BigInt(sequenceNumber),
+    payload,
+    BigInt(maxGasAmount),
+    BigInt(gasUnitPrice),
+    BigInt(expirationTimestampSecs),
+    new TxnBuilderTypes.ChainId(chainId),
+  );
+}
+
+/*
+Signs a RawTransaction offline and returns the BCS-encoded SignedTransaction
+*/
+export async function signRawTransactionBCS(
+  account: AptosAccount | TxSigner,
+  rawTxn: TxnBuilderTypes.RawTransaction,
+): Promise<Uint8Array> {
+  const signer = toTxSigner(account);
+  const signingMessage = TransactionBuilder.getSigningMessage(rawTxn);
+  const signature = await signer.signMessage(HexString.fromUint8Array(signingMessage));
+  const authenticator = new TxnBuilderTypes.TransactionAuthenticatorEd25519(
+    new TxnBuilderTypes.Ed25519PublicKey(signer.publicKey().toUint8Array()),
+    new TxnBuilderTypes.Ed25519Signature(signature.toUint8Array()),
+  );
+  return BCS.bcsToBytes(new TxnBuilderTypes.SignedTransaction(rawTxn, authenticator));
+}
+
+export async function sendAndWaitBCS(
+  client: AptosClient,
+  account: AptosAccount | TxSigner,
+  payload: TxnBuilderTypes.TransactionPayload,
+  options?: TxOptions,
+): Promise<Types.UserTransaction> {
+  const signer = toTxSigner(account);
+  return withOptimisticUpdate(options, (onSubmitted) => withManagedSequenceNumber(signer.address(), options, async (options) => {
+    let sequenceNumber = options?.sequenceNumber;
+    if (sequenceNumber === undefined) {
+      sequenceNumber = (await client.getAccount(signer.address())).sequence_number;
+    }
+    const chainId = await client.getChainId();
+    const params: RawTransactionParams = {
+      maxGasAmount: options?.maxGasAmount,
+      gasUnitPrice: options?.gasUnitPrice,
+    };
+    if (options?.expirationOffsetSecs !== undefined) {
+      params.expirationTimestampSecs = Math.floor(Date.now() / 1000) + options.expirationOffsetSecs;
+    }
+    const rawTxn = buildRawTransactionBCS(signer.address(), sequenceNumber, payload, chainId, params);
+    const signedTxn = await signRawTransactionBCS(signer, rawTxn);
+    const txnResult = await client.submitSignedBCSTransaction(signedTxn);
+    markSubmitted(options, signer.address(), Number(rawTxn.sequence_number), Number(rawTxn.expiration_timestamp_secs));
+    onSubmitted();
+    return waitForSuccess(client, txnResult.hash, options);
+  }));
+}
+
+/*
+Converts a script function argument to its API form, using a concrete typeTag.
+
+Used for arguments whose declared type refers to the function's type parameters, where the actual type is only known
+once typeParams is supplied at runtime.
+*/
+export function serializeScriptFunctionArgument(value: any, typeTag: TypeTag): any {
+  if (typeTag instanceof VectorTag) {
+    if (typeTag.elementType === AtomicTypeTag.U8) {
+      // vector<u8> goes out as hex string
+      if (value instanceof AptosVectorU8) {
+        return value.hex();
+      }
+      if (value instanceof HexString) {
+        return value.hex();
+      }
+      return numbersOrStringToHexString(value).hex();
+    }
+    if (!(value instanceof Array)) {
+      throw new Error(`Expected an Array for argument of type ${getTypeTagFullname(typeTag)} but received: ${typeof value}`);
+    }
+    return value.map(element => serializeScriptFunctionArgument(element, typeTag.elementType));
+  }
+  else if (typeTag instanceof StructTag) {
+    throw new Error(`Struct type cannot be used as argument to script functions: ${getTypeTagFullname(typeTag)}`);
+  }
+  else if (typeTag instanceof TypeParamIdx) {
+    throw new Error(`Type parameter ${getTypeTagFullname(typeTag)} needs to be substituted with a concrete type first`);
+  }
+  else if (typeTag === AtomicTypeTag.Bool || typeTag === AtomicTypeTag.U8 || typeTag === AtomicTypeTag.U16 || typeTag === AtomicTypeTag.U32) {
+    return value;
+  }
+  else if (typeTag === AtomicTypeTag.U64 || typeTag === AtomicTypeTag.U128 || typeTag === AtomicTypeTag.U256) {
+    // accepts BigInteger, number or string
+    return value.toString();
+  }
+  else if (typeTag === AtomicTypeTag.Address) {
+    if (value instanceof HexString) {
+      return value.hex();
+    }
+    return value;
+  }
+  else {
+    throw new Error(`Unsupported type for script function argument: ${getTypeTagFullname(typeTag)}`);
+  }
+}
@@ -1,11 +1,30 @@
-import { HexString } from "aptos"
-import { assert } from "./utils";
+import { HexString, MaybeHexString } from "aptos"
+
+/*
+Canonical form of an account address: lowercase without leading zeros, e.g. "0x1" for both 0x1 and 0x00..01. The REST
+API returns both forms, so addresses are normalized wherever they are compared or used in keys
+*/
+export function normalizeAddressString(address: MaybeHexString): string {
+  const digits = HexString.ensure(address).noPrefix().toLowerCase().replace(/^0+/, '');
+  return `0x${digits || '0'}`;
+}
+
+export function normalizeAddress(address: MaybeHexString): HexString {
+  return new HexString(normalizeAddressString(address));
+}
+
+export function addressEquals(a: MaybeHexString, b: MaybeHexString): boolean {
+  return normalizeAddressString(a) === normalizeAddressString(b);
+}
 
 export enum AtomicTypeTag{
   Bool = "bool",
   U8 = "u8",
+  U16 = "u16",
+  U32 = "u32",
   U64 = "u64",
   U128 = "u128",
+  U256 = "u256",
   Address = "address",
   Signer = "signer", // only needed for script function interface
 }
@@ -17,7 +36,8 @@ export class StructTag {
     public name: string,
     public typeParams: TypeTag[]
   ) {
-
+    // names and keys derived from the tag should not depend on how the address was formatted
+    this.address = normalizeAddress(address);
   }
   getFullname(): string {
     const typeParamString = getTypeParamsString(this.typeParams);
@@ -45,7 +65,19 @@ export class TypeParamIdx {
   }
 }
 
-export type TypeTag = AtomicTypeTag | VectorTag | StructTag | TypeParamIdx;
+/*
+&T or &mut T. Only found in function signatures, e.g. &signer
+*/
+export class ReferenceTag {
+  constructor(
+    public referencedType: TypeTag,
+    public mutable: boolean,
+  ) {
+
+  }
+}
+
+export type TypeTag = AtomicTypeTag | VectorTag | StructTag | TypeParamIdx | ReferenceTag;
 
 export function getTypeTagFullname(typeTag: TypeTag): string {
   if (typeTag instanceof VectorTag) {
@@ -59,6 +91,9 @@ export function getTypeTagFullname(typeTag: TypeTag): string {
   else if (typeTag instanceof TypeParamIdx) {
     return `$tv${typeTag.index}`;
   }
+  else if (typeTag instanceof ReferenceTag) {
+    return `&${typeTag.mutable ? 'mut ' : ''}${getTypeTagFullname(typeTag.referencedType)}`;
+  }
   else {
     const atomicTag = typeTag as AtomicTypeTag;
     return atomicTag;
@@ -76,6 +111,9 @@ export function getTypeTagParamlessName(typeTag: TypeTag): string {
   else if (typeTag instanceof TypeParamIdx) {
     return `$tv${typeTag.index}`;
   }
+  else if (typeTag instanceof ReferenceTag) {
+    return `&${typeTag.mutable ? 'mut ' : ''}${getTypeTagParamlessName(typeTag.referencedType)}`;
+  }
   else {
     const atomicTag = typeTag as AtomicTypeTag;
     return atomicTag;
@@ -89,148 +127,307 @@ export function getTypeParamsString(typeParams: TypeTag[]) {
   return `<${typeParams.map(getTypeTagFullname).join(',')}>`
 }
 
-function splitByDoubleColon(name: string) {
-  const endIdx = name.indexOf("::");
-  assert(endIdx >= 0);
-  assert(name.length > endIdx + 2);
-  return [name.substr(0, endIdx), name.substr(endIdx+2)];
+export type TokenKind = 'identifier' | 'address' | 'typeParam' | '::' | '<' | '>' | ',' | '&' | '*';
+
+export type Token = {
+  kind: TokenKind;
+  text: string;
+  // position of the token in the input
+  offset: number;
 }
 
-export function parseQualifiedStructTag(name: string): [(null | StructTag), string] {
-  const isQualifiedStruct = name.includes("::");
-  if (!isQualifiedStruct) {
-    return [null, name];
+const ATOMIC_TYPE_NAMES: string[] = Object.values(AtomicTypeTag);
+
+// excerpts of long inputs show this many characters on either side of the error
+const EXCERPT_CONTEXT = 30;
+
+/*
+The input with a caret under offset, e.g.
+
+  0x1::Coin::Coin<u8,>
+                     ^
+
+Long inputs are cut around offset, and line breaks are shown as spaces
+*/
+function getCaretExcerpt(input: string, offset: number) {
+  const start = Math.max(0, offset - EXCERPT_CONTEXT);
+  const end = Math.min(input.length, offset + EXCERPT_CONTEXT);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < input.length ? '...' : '';
+  const line = prefix + input.slice(start, end).replace(/\s/g, ' ') + suffix;
+  return `${line}\n${' '.repeat(prefix.length + offset - start)}^`;
+}
+
+/*
+Thrown for malformed type strings, e.g. from the type fields of JSON descriptors, resources or events
+*/
+export class TypeTagParseError extends Error {
+  public excerpt: string;
+  constructor(
+    public input: string,
+    // position in input where parsing failed
+    public offset: number,
+    // what the parser was looking for, e.g. "'>'" or "a type"
+    public expected: string,
+    // what it found instead, null at the end of the input
+    public found: null | string,
+  ) {
+    const excerpt = getCaretExcerpt(input, offset);
+    super(`Invalid type tag: expected ${expected} but found ${found === null ? 'end of input' : `'${found}'`} at offset ${offset}\n${excerpt}`);
+    this.name = "TypeTagParseError";
+    this.excerpt = excerpt;
   }
-  const [address, withoutAddress] = splitByDoubleColon(name);
-  const hexAddress = new HexString(address);
-  const [module, withoutModule] = splitByDoubleColon(withoutAddress);
-  // structName<...>
-  if (withoutModule.includes("<")) {
-    const leftBracketIdx = withoutModule.indexOf("<");
-    const structName = withoutModule.substr(0, leftBracketIdx);
-    const afterLeftBracket = withoutModule.substr(leftBracketIdx+1);
-    const typeParams: TypeTag[] = [];
-    let [result, remaining] = parseTypeTag(afterLeftBracket);
-    while(true) {
-      if (result === null) {
-        throw new Error( `Badly formatted struct name: ${name}`);
-      }
-      typeParams.push(result);
-      // consume the closing bracket
-      if (remaining.startsWith('>')) {
-        return [new StructTag(hexAddress, module, structName, typeParams), remaining.substr(1)];
-      }
-      // more params to parse
-      else if (remaining.startsWith(', ')) {
-        [result, remaining] = parseTypeTag(remaining.substr(2));
+}
+
+function describeTokenKind(kind: TokenKind) {
+  switch(kind) {
+    case 'identifier':
+      return 'an identifier';
+    case 'address':
+      return 'an address';
+    case 'typeParam':
+      return 'a type parameter';
+    default:
+      return `'${kind}'`;
+  }
+}
+
+function isIdentifierStart(char: string) {
+  return /[A-Za-z_]/.test(char);
+}
+
+function isIdentifierChar(char: string) {
+  return /[A-Za-z0-9_]/.test(char);
+}
+
+/*
+Recursive descent parser over a lazily tokenized input, for the grammar:
+
+  type    := '&' 'mut'? type
+           | 'vector' '<' type '>'
+           | bool | u8 | u16 | u32 | u64 | u128 | u256 | address | signer
+           | ADDRESS '::' IDENTIFIER '::' IDENTIFIER ('<' type (',' type)* '>')?
+           | '$tv' NUMBER
+
+Whitespace between tokens is ignored. Tokens are only read as far as parsing goes, so a type followed by something else
+can be parsed, with the rest of the input left as remaining()
+
+'*' is only a token for the wildcards of type tag patterns (see typeTagPattern), which are parsed on the same tokens
+*/
+export class TypeTagParser {
+  private offset: number;
+  constructor(
+    private input: string,
+  ) {
+    this.offset = 0;
+  }
+
+  remaining(): string {
+    return this.input.slice(this.remainingOffset());
+  }
+
+  /*
+  expected describes what the caller is looking for, for the error on characters that do not start a token
+  */
+  peek(expected = "an address, an identifier, '$tv', '::', '<', '>', ',', '&' or '*'"): null | Token {
+    const start = this.skipWhitespace(this.offset);
+    if (start >= this.input.length) {
+      return null;
+    }
+    const char = this.input[start];
+    if (this.input.startsWith('::', start)) {
+      return { kind: '::', text: '::', offset: start };
+    }
+    if (['<', '>', ',', '&', '*'].includes(char)) {
+      return { kind: char as TokenKind, text: char, offset: start };
+    }
+    if (this.input.startsWith('$tv', start)) {
+      const digits = /^[0-9]+/.exec(this.input.slice(start + 3));
+      if (!digits) {
+        throw this.error(start + 3, 'a number after $tv');
       }
-      else if (remaining.startsWith(',')) {
-        [result, remaining] = parseTypeTag(remaining.substr(1));
+      return { kind: 'typeParam', text: this.input.substr(start, 3 + digits[0].length), offset: start };
+    }
+    if (this.input.startsWith('0x', start)) {
+      const digits = /^[0-9a-fA-F]+/.exec(this.input.slice(start + 2));
+      if (!digits) {
+        throw this.error(start + 2, 'hex digits after 0x');
       }
-      else {
-        throw new Error( `Badly formatted struct name: ${name}`);
+      return { kind: 'address', text: this.input.substr(start, 2 + digits[0].length), offset: start };
+    }
+    if (isIdentifierStart(char)) {
+      let end = start + 1;
+      while (end < this.input.length && isIdentifierChar(this.input[end])) {
+        end++;
       }
+      return { kind: 'identifier', text: this.input.slice(start, end), offset: start };
     }
+    throw this.error(start, expected);
   }
-  // just structName
-  else {
-    // structName could be followed by ',' or '>'
-    const commaIdx = withoutModule.indexOf(',');
-    const brackIdx = withoutModule.indexOf('>');
-    if (commaIdx === -1 && brackIdx === -1) {
-      // fully consumed
-      return [new StructTag(hexAddress, module, withoutModule, []), ""];
+
+  /*
+  expected describes what the caller is looking for, for the error at the end of the input
+  */
+  next(expected: string): Token {
+    const token = this.peek(expected);
+    if (token === null) {
+      throw this.error(this.input.length, expected);
     }
-    const separatorIdx = commaIdx === -1 ? brackIdx : Math.min(commaIdx, brackIdx);
-    return [new StructTag(hexAddress, module, withoutModule.substr(0, separatorIdx), []), withoutModule.substr(separatorIdx)];
+    this.offset = token.offset + token.text.length;
+    return token;
   }
-}
 
-export function parseVectorTag(name: string): [(null|VectorTag), string] {
-  if (!name.startsWith('vector<')) {
-    return [null, name];
+  expect(kind: TokenKind): Token {
+    const token = this.next(describeTokenKind(kind));
+    if (token.kind !== kind) {
+      throw this.error(token.offset, describeTokenKind(kind), token.text);
+    }
+    return token;
   }
-  let [elementType, remaining] = parseTypeTag(name.substr(7));
-  if (elementType === null || !remaining.startsWith('>')) {
-    throw new Error(`Badly formatted vector type name: ${name}`);
+
+  /*
+  The error for offset. Unless given, found is the rest of the current token (or character)
+  */
+  error(offset: number, expected: string, found?: string): TypeTagParseError {
+    if (found === undefined) {
+      found = offset < this.input.length ? (/^[A-Za-z0-9_]+/.exec(this.input.slice(offset)) ?? [this.input[offset]])[0] : undefined;
+    }
+    return new TypeTagParseError(this.input, offset, expected, found ?? null);
   }
-  // consume the remaining '>'
-  return [new VectorTag(elementType), remaining.substr(1)];
-}
 
-export function parseAtomicTag(name: string): [(null|AtomicTypeTag), string] {
-  const atomicTags = Object.values(AtomicTypeTag);
-  for(const tag of atomicTags) {
-    const value = tag;
-    if (name.startsWith(value)) {
-      // fully consumed the name
-      if (name.length === value.length) {
-        return [value, ""];
-      } 
-      // the name is an AtomicTypeTag followed by other template elements
-      else if( [',', '>'].includes(name[value.length])) {
-        return [value, name.substr(value.length)];
+  parseType(): TypeTag {
+    const token = this.next('a type');
+    if (token.kind === '&') {
+      const mutToken = this.peek();
+      const mutable = mutToken !== null && mutToken.kind === 'identifier' && mutToken.text === 'mut';
+      if (mutable) {
+        this.next("'mut'");
+      }
+      return new ReferenceTag(this.parseType(), mutable);
+    }
+    else if (token.kind === 'typeParam') {
+      return new TypeParamIdx(parseInt(token.text.slice(3)));
+    }
+    else if (token.kind === 'address') {
+      return this.parseStructAfterAddress(token);
+    }
+    else if (token.kind === 'identifier') {
+      if (token.text === 'vector') {
+        this.expect('<');
+        const elementType = this.parseType();
+        this.expect('>');
+        return new VectorTag(elementType);
+      }
+      if (ATOMIC_TYPE_NAMES.includes(token.text)) {
+        return token.text as AtomicTypeTag;
       }
-      // miss
+      throw this.error(token.offset, 'a type', token.text);
     }
+    throw this.error(token.offset, 'a type', token.text);
   }
-  return [null, name];
-}
 
-const CHAR_CODE_0 = '0'.charCodeAt(0);
-const CHAR_CODE_9 = '9'.charCodeAt(0);
+  private parseStructAfterAddress(addressToken: Token): StructTag {
+    this.expect('::');
+    const module = this.expect('identifier').text;
+    this.expect('::');
+    const name = this.expect('identifier').text;
+    const typeParams: TypeTag[] = [];
+    const open = this.peek();
+    if (open !== null && open.kind === '<') {
+      this.next("'<'");
+      while (true) {
+        typeParams.push(this.parseType());
+        const separator = this.next("',' or '>'");
+        if (separator.kind === '>') {
+          break;
+        }
+        if (separator.kind !== ',') {
+          throw this.error(separator.offset, "',' or '>'", separator.text);
+        }
+      }
+    }
+    return new StructTag(new HexString(addressToken.text), module, name, typeParams);
+  }
 
-export function parseTypeParameter(name: string): [(null|TypeParamIdx), string] {
-  if(!name.startsWith('$tv')) {
-    return [null, name];
+  /*
+  Position of remaining()
+  */
+  remainingOffset(): number {
+    return this.skipWhitespace(this.offset);
   }
-  let idx = 3;
-  for(; idx < name.length; idx++) {
-    const charCode = name.charCodeAt(idx);
-    if(charCode >= CHAR_CODE_0 && charCode <= CHAR_CODE_9) {
-      continue;
+
+  private skipWhitespace(offset: number) {
+    while (offset < this.input.length && /\s/.test(this.input[offset])) {
+      offset++;
     }
-    break;
+    return offset;
   }
-  if(idx === 3) {
-    throw new Error(`Failed to find number after $tv in :${name}`);
+}
+
+/*
+Parses the type at the start of name when its first token is of the given kind, otherwise returns [null, name]
+*/
+function parseTypeTagStartingWith<T extends TypeTag>(name: string, accepts: (token: Token) => boolean): [(null | T), string] {
+  const parser = new TypeTagParser(name);
+  const first = parser.peek();
+  if (first === null || !accepts(first)) {
+    return [null, name];
   }
-  const paramIdx = parseInt(name.substr(3, idx - 3));
-  return [new TypeParamIdx(paramIdx), name.substr(idx)];
+  const tag = parser.parseType() as T;
+  return [tag, parser.remaining()];
+}
+
+export function parseQualifiedStructTag(name: string): [(null | StructTag), string] {
+  return parseTypeTagStartingWith<StructTag>(name, token => token.kind === 'address');
+}
+
+export function parseVectorTag(name: string): [(null|VectorTag), string] {
+  return parseTypeTagStartingWith<VectorTag>(name, token => token.kind === 'identifier' && token.text === 'vector');
+}
+
+export function parseAtomicTag(name: string): [(null|AtomicTypeTag), string] {
+  return parseTypeTagStartingWith<AtomicTypeTag>(name, token => token.kind === 'identifier' && ATOMIC_TYPE_NAMES.includes(token.text));
+}
+
+export function parseTypeParameter(name: string): [(null|TypeParamIdx), string] {
+  return parseTypeTagStartingWith<TypeParamIdx>(name, token => token.kind === 'typeParam');
+}
+
+export function parseReferenceTag(name: string): [(null|ReferenceTag), string] {
+  return parseTypeTagStartingWith<ReferenceTag>(name, token => token.kind === '&');
 }
 
+/*
+Parses the type at the start of name, and returns it with the rest of name. Throws TypeTagParseError if name does not
+start with a type
+*/
 export function parseTypeTag(name: string): [(null | TypeTag), string] {
-  const [atomicResult, remaining1] = parseAtomicTag(name);
-  if (atomicResult !== null) {
-    return [atomicResult, remaining1];
-  }
-  const [vectorResult, remaining2] = parseVectorTag(name);
-  if (vectorResult !== null) {
-    return [vectorResult, remaining2];
-  }
-  const [structResult, remaining3] = parseQualifiedStructTag(name);
-  if (structResult !== null) {
-    return [structResult, remaining3];
-  }
-  const [tvResult, remaining4] = parseTypeParameter(name);
-  if (tvResult !== null) {
-    return [tvResult, remaining4];
-  }
-  throw new Error(`Bad typetag: ${name}`);
+  const parser = new TypeTagParser(name);
+  const tag = parser.parseType();
+  return [tag, parser.remaining()];
 }
 
+/*
+Parses name, which should be exactly one type. Throws TypeTagParseError otherwise
+*/
 export function parseTypeTagOrThrow(name: string): TypeTag {
-  const [tag, remaining] = parseTypeTag(name);
-  if (!tag || remaining.length > 0) {
-    throw new Error(`Invalid type tag: ${name}`);
+  const parser = new TypeTagParser(name);
+  const tag = parser.parseType();
+  if (parser.remaining().length > 0) {
+    throw parser.error(parser.remainingOffset(), 'end of input');
   }
   return tag;
 }
 
 export function parseResourceType(fullname: string): StructTag {
-  const [result, remaining] = parseQualifiedStructTag(fullname);
-  if (result === null || remaining.length !== 0) {
-    throw new Error(`Badly formatted resource type: ${fullname}`);
+  const parser = new TypeTagParser(fullname);
+  const first = parser.peek();
+  if (first === null || first.kind !== 'address') {
+    throw parser.error(first === null ? fullname.length : first.offset, 'a struct type');
+  }
+  const result = parser.parseType() as StructTag;
+  if (parser.remaining().length > 0) {
+    throw parser.error(parser.remainingOffset(), 'end of input');
   }
   return result;
 }
@@ -251,6 +448,9 @@ export function substituteTypeParams(toSubstitute: TypeTag, typeParams: TypeTag[
     }
     return subbed;
   }
+  else if (toSubstitute instanceof ReferenceTag) {
+    return new ReferenceTag(substituteTypeParams(toSubstitute.referencedType, typeParams), toSubstitute.mutable);
+  }
   else {
     // AtomicTypeTag
     return toSubstitute;
@@ -273,8 +473,91 @@ export function isTypeTagConcrete(tag: TypeTag): boolean {
   else if( tag instanceof VectorTag) {
     return isTypeTagConcrete(tag.elementType);
   }
+  else if (tag instanceof ReferenceTag) {
+    return isTypeTagConcrete(tag.referencedType);
+  }
   else {
     // AtomicTypeTag
     return true;
   }
-}
\ No newline at end of file
+}
+
+// ordering of the kinds of TypeTags in compareTypeTags
+function getTypeTagKindRank(tag: TypeTag): number {
+  if (tag instanceof VectorTag) {
+    return 1;
+  }
+  else if (tag instanceof StructTag) {
+    return 2;
+  }
+  else if (tag instanceof TypeParamIdx) {
+    return 3;
+  }
+  else if (tag instanceof ReferenceTag) {
+    return 4;
+  }
+  return 0;
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : (a > b ? 1 : 0);
+}
+
+/*
+A total order of TypeTags, for sorting: atomic types, then vectors, structs, type parameters and references. Structs are ordered by
+address (numerically), module, name, then type parameters
+*/
+export function compareTypeTags(a: TypeTag, b: TypeTag): number {
+  const rankDiff = getTypeTagKindRank(a) - getTypeTagKindRank(b);
+  if (rankDiff !== 0) {
+    return rankDiff;
+  }
+  if (a instanceof VectorTag && b instanceof VectorTag) {
+    return compareTypeTags(a.elementType, b.elementType);
+  }
+  else if (a instanceof StructTag && b instanceof StructTag) {
+    const addressDiff = compareStrings(a.address.noPrefix().padStart(64, '0'), b.address.noPrefix().padStart(64, '0'));
+    if (addressDiff !== 0) {
+      return addressDiff;
+    }
+    const nameDiff = compareStrings(a.module, b.module) || compareStrings(a.name, b.name);
+    if (nameDiff !== 0) {
+      return nameDiff;
+    }
+    for(let i = 0; i < Math.min(a.typeParams.length, b.typeParams.length); i++) {
+      const paramDiff = compareTypeTags(a.typeParams[i], b.typeParams[i]);
+      if (paramDiff !== 0) {
+        return paramDiff;
+      }
+    }
+    return a.typeParams.length - b.typeParams.length;
+  }
+  else if (a instanceof TypeParamIdx && b instanceof TypeParamIdx) {
+    return a.index - b.index;
+  }
+  else if (a instanceof ReferenceTag && b instanceof ReferenceTag) {
+    return (Number(a.mutable) - Number(b.mutable)) || compareTypeTags(a.referencedType, b.referencedType);
+  }
+  return compareStrings(a as AtomicTypeTag, b as AtomicTypeTag);
+}
+
+/*
+Structural equality, regardless of how addresses were formatted
+*/
+export function typeTagEquals(a: TypeTag, b: TypeTag): boolean {
+  return compareTypeTags(a, b) === 0;
+}
+
+/*
+32-bit FNV-1a hash of the canonical full name. Equal TypeTags have equal hashes, across processes and versions of this
+package
+*/
+export function hashTypeTag(tag: TypeTag): number {
+  const name = getTypeTagFullname(tag);
+  let hash = 0x811c9dc5;
+  for(let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,189 @@
+import { AtomicTypeTag, normalizeAddressString, ReferenceTag, StructTag, Token, TypeParamIdx, TypeTag, TypeTagParser, VectorTag } from "./typeTag";
+
+/*
+Patterns are types with wildcards:
+
+  _  matches any type, e.g. 0x1::Coin::CoinStore<_>
+  *  matches any address, module or struct name, e.g. 0x1::Coin::CoinStore<0x1::*::*>
+
+Everything else has to be equal. A struct pattern only matches structs with as many type parameters as it has, so
+0x1::Coin::CoinStore does not match 0x1::Coin::CoinStore<0x1::AptosCoin::AptosCoin>
+*/
+
+// in place of an address, module or struct name
+export const ANY_NAME = "*";
+
+/*
+`_`. The types it matches are bound, in the order of the `_` in the pattern, see matchTypeTag
+*/
+export class AnyTypePattern {
+}
+
+export class StructTagPattern {
+  constructor(
+    // canonical address (see normalizeAddressString) or ANY_NAME
+    public address: string,
+    public module: string,
+    public name: string,
+    public typeParams: TypeTagPattern[],
+  ) {
+
+  }
+}
+
+export class VectorTagPattern {
+  constructor(
+    public elementType: TypeTagPattern,
+  ) {
+
+  }
+}
+
+export class ReferenceTagPattern {
+  constructor(
+    public referencedType: TypeTagPattern,
+    public mutable: boolean,
+  ) {
+
+  }
+}
+
+export type TypeTagPattern = AtomicTypeTag | TypeParamIdx | AnyTypePattern | StructTagPattern | VectorTagPattern | ReferenceTagPattern;
+
+const ATOMIC_TYPE_NAMES: string[] = Object.values(AtomicTypeTag);
+
+function parsePattern(parser: TypeTagParser): TypeTagPattern {
+  const token = parser.next('a type pattern');
+  if (token.kind === '&') {
+    const mutToken = parser.peek();
+    const mutable = mutToken !== null && mutToken.kind === 'identifier' && mutToken.text === 'mut';
+    if (mutable) {
+      parser.next("'mut'");
+    }
+    return new ReferenceTagPattern(parsePattern(parser), mutable);
+  }
+  else if (token.kind === 'typeParam') {
+    return new TypeParamIdx(parseInt(token.text.slice(3)));
+  }
+  else if (token.kind === 'address' || token.kind === '*') {
+    return parseStructPatternAfterAddress(parser, token);
+  }
+  else if (token.kind === 'identifier') {
+    if (token.text === '_') {
+      return new AnyTypePattern();
+    }
+    if (token.text === 'vector') {
+      parser.expect('<');
+      const elementType = parsePattern(parser);
+      parser.expect('>');
+      return new VectorTagPattern(elementType);
+    }
+    if (ATOMIC_TYPE_NAMES.includes(token.text)) {
+      return token.text as AtomicTypeTag;
+    }
+  }
+  throw parser.error(token.offset, 'a type pattern', token.text);
+}
+
+function parseName(parser: TypeTagParser): string {
+  const token = parser.next("an identifier or '*'");
+  if (token.kind !== 'identifier' && token.kind !== '*') {
+    throw parser.error(token.offset, "an identifier or '*'", token.text);
+  }
+  return token.text;
+}
+
+function parseStructPatternAfterAddress(parser: TypeTagParser, addressToken: Token): StructTagPattern {
+  const address = addressToken.kind === '*' ? ANY_NAME : normalizeAddressString(addressToken.text);
+  parser.expect('::');
+  const module = parseName(parser);
+  parser.expect('::');
+  const name = parseName(parser);
+  const typeParams: TypeTagPattern[] = [];
+  const open = parser.peek();
+  if (open !== null && open.kind === '<') {
+    parser.next("'<'");
+    while (true) {
+      typeParams.push(parsePattern(parser));
+      const separator = parser.next("',' or '>'");
+      if (separator.kind === '>') {
+        break;
+      }
+      if (separator.kind !== ',') {
+        throw parser.error(separator.offset, "',' or '>'", separator.text);
+      }
+    }
+  }
+  return new StructTagPattern(address, module, name, typeParams);
+}
+
+/*
+Parses pattern, which should be exactly one type pattern. Throws TypeTagParseError otherwise
+*/
+export function parseTypeTagPattern(pattern: string): TypeTagPattern {
+  const parser = new TypeTagParser(pattern);
+  const result = parsePattern(parser);
+  if (parser.remaining().length > 0) {
+    throw parser.error(parser.remainingOffset(), 'end of input');
+  }
+  return result;
+}
+
+function ensurePattern(pattern: string | TypeTagPattern): TypeTagPattern {
+  // AtomicTypeTags are strings too, and parse to themselves
+  return typeof pattern === 'string' ? parseTypeTagPattern(pattern) : pattern;
+}
+
+function nameMatches(pattern: string, name: string) {
+  return pattern === ANY_NAME || pattern === name;
+}
+
+function matchInto(pattern: TypeTagPattern, tag: TypeTag, bindings: TypeTag[]): boolean {
+  if (pattern instanceof AnyTypePattern) {
+    bindings.push(tag);
+    return true;
+  }
+  else if (pattern instanceof StructTagPattern) {
+    return tag instanceof StructTag &&
+      nameMatches(pattern.address, tag.address.hex()) &&
+      nameMatches(pattern.module, tag.module) &&
+      nameMatches(pattern.name, tag.name) &&
+      pattern.typeParams.length === tag.typeParams.length &&
+      pattern.typeParams.every((param, i) => matchInto(param, tag.typeParams[i], bindings));
+  }
+  else if (pattern instanceof VectorTagPattern) {
+    return tag instanceof VectorTag && matchInto(pattern.elementType, tag.elementType, bindings);
+  }
+  else if (pattern instanceof ReferenceTagPattern) {
+    return tag instanceof ReferenceTag && pattern.mutable === tag.mutable && matchInto(pattern.referencedType, tag.referencedType, bindings);
+  }
+  else if (pattern instanceof TypeParamIdx) {
+    return tag instanceof TypeParamIdx && pattern.index === tag.index;
+  }
+  else {
+    // AtomicTypeTag
+    return pattern === tag;
+  }
+}
+
+/*
+Matches tag against pattern (a TypeTagPattern or its string form). Returns null if it does not match, otherwise the
+types matched by the `_` of the pattern, in order. E.g. matching 0x1::Coin::CoinStore<_> against
+0x1::Coin::CoinStore<0x1::AptosCoin::AptosCoin> returns [0x1::AptosCoin::AptosCoin]
+*/
+export function matchTypeTag(pattern: string | TypeTagPattern, tag: TypeTag): null | TypeTag[] {
+  const bindings: TypeTag[] = [];
+  return matchInto(ensurePattern(pattern), tag, bindings) ? bindings : null;
+}
+
+export function typeTagMatches(pattern: string | TypeTagPattern, tag: TypeTag): boolean {
+  return matchTypeTag(pattern, tag) !== null;
+}
+
+/*
+The tags that match pattern, in their original order
+*/
+export function filterTypeTags<T extends TypeTag>(pattern: string | TypeTagPattern, tags: T[]): T[] {
+  const parsed = ensurePattern(pattern);
+  return tags.filter(tag => matchTypeTag(parsed, tag) !== null);
+}
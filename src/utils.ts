@@ -1,3 +1,6 @@
+import { HexString } from "aptos";
+import bigInt from "big-integer";
+
 export function print(obj: any) {
   if(typeof obj === 'object') {
     console.log(obj.constructor.name);
@@ -9,4 +12,33 @@ export function assert(cond: boolean, msg = '' ) {
   if(!cond) {
     throw new Error(msg);
   }
+}
+
+/*
+Structural equality for parsed Move values: BigIntegers, HexStrings, arrays and struct instances
+*/
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (bigInt.isInstance(a) && bigInt.isInstance(b)) {
+    return a.equals(b);
+  }
+  if (a.constructor !== b.constructor) {
+    return false;
+  }
+  if (a instanceof HexString) {
+    return a.toShortString() === b.toShortString();
+  }
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, idx) => deepEqual(item, b[idx]));
+  }
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+  return keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
 }
\ No newline at end of file